@@ -2,18 +2,76 @@ import React, { useCallback, useEffect, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { CsvData } from '@/types/contentstack';
+import { CsvDialect, CsvParseOptions, CsvParseResult } from '@/types/csvParser';
+import { DEFAULT_FALLBACK_ENCODINGS } from '@/utils/encoding';
+import { SPREADSHEET_EXTENSIONS, isSpreadsheetFile, readWorkbook, sheetToCsvData } from '@/utils/spreadsheetParser';
+import { JSON_EXTENSIONS, isJsonFile, parseJsonFile } from '@/utils/jsonParser';
+import { getColumns, isAutoRenamed, removeRows, renameColumn, updateCell } from '@/utils/csvDataUtils';
+import { CsvSource } from '@/utils/csvMerge';
+import type { WorkBook } from 'xlsx';
 import { useToast } from '@/hooks/use-toast';
-import { FileUp, CheckCircle, Upload } from 'lucide-react';
+import { Progress } from '@/components/ui/progress';
+import { FileUp, CheckCircle, Upload, Loader2, X, ArrowRight, Pencil } from 'lucide-react';
+import { useCsvParser } from './CsvUpload/useCsvParser';
+import DialectPanel from './CsvUpload/DialectPanel';
+import EncodingPanel, { AUTO_ENCODING } from './CsvUpload/EncodingPanel';
+import SpreadsheetPanel from './CsvUpload/SpreadsheetPanel';
+import ParseDiagnosticsReport from './CsvUpload/ParseDiagnosticsReport';
+import HeaderReviewPanel from './CsvUpload/HeaderReviewPanel';
+import DataPreviewGrid from './CsvUpload/DataPreviewGrid';
+import MergePanel from './CsvUpload/MergePanel';
+
+interface PendingUpload {
+  file: File;
+  result: CsvParseResult;
+  // Rows flagged by the diagnostics report that the user chose to leave out
+  excludedRows: Set<number>;
+  // Rows whose cells were corrected in the diagnostics report
+  editedRows: Set<number>;
+}
+
+// Row fixes are tied to one parse of the file; parsing it again starts from a clean slate
+const createPendingUpload = (file: File, result: CsvParseResult): PendingUpload =>
+  ({ file, result, excludedRows: new Set(), editedRows: new Set() });
+
+const hasRowFixes = (pending: PendingUpload) => pending.excludedRows.size > 0 || pending.editedRows.size > 0;
+
+interface PendingSpreadsheet {
+  file: File;
+  workbook: WorkBook;
+  sheetName: string;
+  headerRow: number;
+}
+
+interface PendingMerge {
+  sources: CsvSource[];
+  malformedRows: Record<string, number>;
+}
+
+const isSupportedFile = (fileName: string) =>
+  fileName.toLowerCase().endsWith('.csv') || isSpreadsheetFile(fileName) || isJsonFile(fileName);
 
 interface CsvUploadProps {
   onUpload: (data: CsvData) => void;
+  // Called for edits to the loaded data that keep its columns, such as renames
+  onDataChange: (data: CsvData) => void;
   initialData?: CsvData | null;
 }
 
-const CsvUpload: React.FC<CsvUploadProps> = ({ onUpload, initialData }) => {
+const CsvUpload: React.FC<CsvUploadProps> = ({ onUpload, onDataChange, initialData }) => {
   const { toast } = useToast();
   const [hasData, setHasData] = useState(false);
   const [fileInputKey, setFileInputKey] = useState(Date.now());
+  const [pendingUpload, setPendingUpload] = useState<PendingUpload | null>(null);
+  const [pendingSpreadsheet, setPendingSpreadsheet] = useState<PendingSpreadsheet | null>(null);
+  const [pendingMerge, setPendingMerge] = useState<PendingMerge | null>(null);
+  const [isReadingWorkbook, setIsReadingWorkbook] = useState(false);
+  const [isReadingFiles, setIsReadingFiles] = useState(false);
+  const [dialect, setDialect] = useState<CsvDialect | null>(null);
+  const [encodingOverride, setEncodingOverride] = useState(AUTO_ENCODING);
+  const [fallbackEncodings, setFallbackEncodings] = useState<string[]>(DEFAULT_FALLBACK_ENCODINGS);
+  const [showHeaderReview, setShowHeaderReview] = useState(false);
+  const { isParsing, progress, parseFile, cancelParse } = useCsvParser();
 
   useEffect(() => {
     if (initialData) {
@@ -21,157 +79,310 @@ const CsvUpload: React.FC<CsvUploadProps> = ({ onUpload, initialData }) => {
     }
   }, [initialData]);
 
-  const parseCsvLine = (line: string): string[] => {
-    const result: string[] = [];
-    let current = '';
-    let inQuotes = false;
-    let i = 0;
-    
-    while (i < line.length) {
-      const char = line[i];
-      
-      if (char === '"') {
-        if (inQuotes && line[i + 1] === '"') {
-          // Handle escaped quotes
-          current += '"';
-          i += 2;
-        } else {
-          // Toggle quote state
-          inQuotes = !inQuotes;
-          i++;
-        }
-      } else if (char === ',' && !inQuotes) {
-        // End of field
-        result.push(current.trim());
-        current = '';
-        i++;
-      } else {
-        current += char;
-        i++;
-      }
+  const commitData = useCallback((csvData: CsvData) => {
+    if (csvData.headers.length === 0) {
+      throw new Error('No headers found in CSV');
     }
-    
-    // Add the last field
-    result.push(current.trim());
-    return result;
-  };
 
-  const parseCsv = (csvText: string): CsvData => {
-    console.log('🔍 Starting CSV parsing...');
-    console.log('Raw CSV text length:', csvText.length);
-    
-    // Split by lines but be careful about quoted content
-    const lines: string[] = [];
-    let currentLine = '';
-    let inQuotes = false;
-    
-    for (let i = 0; i < csvText.length; i++) {
-      const char = csvText[i];
-      
-      if (char === '"') {
-        inQuotes = !inQuotes;
-        currentLine += char;
-      } else if ((char === '\n' || char === '\r') && !inQuotes) {
-        if (currentLine.trim()) {
-          lines.push(currentLine.trim());
-        }
-        currentLine = '';
-        // Skip \r\n combinations
-        if (char === '\r' && csvText[i + 1] === '\n') {
-          i++;
-        }
-      } else {
-        currentLine += char;
+    const renamedCount = getColumns(csvData).filter(isAutoRenamed).length;
+
+    setHasData(true);
+    setPendingUpload(null);
+    setPendingSpreadsheet(null);
+    setPendingMerge(null);
+    setShowHeaderReview(renamedCount > 0);
+    onUpload(csvData);
+
+    toast({
+      title: "CSV Uploaded Successfully",
+      description: `Found ${csvData.rows.length} rows with ${csvData.headers.length} columns` +
+        (renamedCount > 0 ? `. ${renamedCount} blank or duplicate headers were renamed - review them on the upload step.` : '')
+    });
+  }, [onUpload, toast]);
+
+  const showParseError = useCallback((error: unknown) => {
+    console.error('CSV parsing error:', error);
+    toast({
+      title: "Error Parsing CSV",
+      description: "Please check your CSV format and try again. Make sure text fields with delimiters or line breaks are properly quoted.",
+      variant: "destructive"
+    });
+  }, [toast]);
+
+  const handleSpreadsheetUpload = useCallback(async (file: File) => {
+    setIsReadingWorkbook(true);
+    try {
+      const workbook = await readWorkbook(file);
+      if (workbook.SheetNames.length === 0) {
+        throw new Error('The workbook contains no sheets');
       }
+
+      setPendingUpload(null);
+      setPendingMerge(null);
+      setPendingSpreadsheet({ file, workbook, sheetName: workbook.SheetNames[0], headerRow: 1 });
+    } catch (error) {
+      console.error('Spreadsheet parsing error:', error);
+      toast({
+        title: "Error Reading Spreadsheet",
+        description: "The workbook could not be opened. Please check that it is a valid .xlsx or .ods file.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsReadingWorkbook(false);
+      setFileInputKey(Date.now());
     }
-    
-    // Add the last line if it exists
-    if (currentLine.trim()) {
-      lines.push(currentLine.trim());
+  }, [toast]);
+
+  const handleSpreadsheetContinue = useCallback(async () => {
+    if (!pendingSpreadsheet) return;
+
+    try {
+      const { file, workbook, sheetName, headerRow } = pendingSpreadsheet;
+      commitData(await sheetToCsvData(workbook, sheetName, headerRow, file.name));
+    } catch (error) {
+      showParseError(error);
     }
-    
-    console.log(`📋 Found ${lines.length} lines after parsing`);
-    lines.forEach((line, index) => {
-      console.log(`Line ${index + 1}: ${line.substring(0, 100)}${line.length > 100 ? '...' : ''}`);
-    });
-    
-    if (lines.length === 0) {
-      throw new Error('No valid lines found in CSV');
-    }
-    
-    // Parse headers
-    const headers = parseCsvLine(lines[0]);
-    console.log('📊 Headers:', headers);
-    
-    // Parse data rows
-    const rows = lines.slice(1).map((line, index) => {
-      console.log(`🔄 Parsing row ${index + 1}:`, line.substring(0, 100) + (line.length > 100 ? '...' : ''));
-      
-      const values = parseCsvLine(line);
-      console.log(`   Values count: ${values.length}, Expected: ${headers.length}`);
-      
-      const row: Record<string, string> = {};
-      
-      headers.forEach((header, headerIndex) => {
-        row[header] = values[headerIndex] || '';
+  }, [pendingSpreadsheet, commitData, showParseError]);
+
+  // JSON has no format options to review, so valid files go straight to mapping
+  const handleJsonUpload = useCallback(async (file: File) => {
+    try {
+      const { data, skippedCount } = await parseJsonFile(file);
+      commitData(data);
+      if (skippedCount > 0) {
+        toast({
+          title: "JSON Values Skipped",
+          description: `${skippedCount} top-level values in ${file.name} are not objects and were left out. ${data.rows.length} records were loaded.`,
+          variant: "destructive"
+        });
+      }
+    } catch (error) {
+      console.error('JSON parsing error:', error);
+      toast({
+        title: "Error Parsing JSON",
+        description: error instanceof Error ? error.message : "Please check that the file contains a JSON array or newline-delimited JSON objects.",
+        variant: "destructive"
       });
-      
-      console.log(`   Row data:`, Object.keys(row).reduce((acc, key) => {
-        acc[key] = row[key].substring(0, 50) + (row[key].length > 50 ? '...' : '');
-        return acc;
-      }, {} as Record<string, string>));
-      
-      return row;
-    });
+    } finally {
+      setFileInputKey(Date.now());
+    }
+  }, [commitData, toast]);
+
+  const getParseOptions = useCallback((overrides: CsvParseOptions = {}): CsvParseOptions => ({
+    encoding: encodingOverride === AUTO_ENCODING ? undefined : encodingOverride,
+    fallbackEncodings,
+    ...overrides
+  }), [encodingOverride, fallbackEncodings]);
+
+  // Several files are read with default settings (first sheet, detected CSV format) and then combined
+  const handleMultipleUpload = useCallback(async (files: File[]) => {
+    const unsupported = files.filter(file => !isSupportedFile(file.name));
+    if (unsupported.length > 0) {
+      setFileInputKey(Date.now());
+      toast({
+        title: "Invalid File Type",
+        description: `${unsupported.map(file => file.name).join(', ')} cannot be imported. Please choose CSV, spreadsheet or JSON files only.`,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setIsReadingFiles(true);
+    try {
+      const sources: CsvSource[] = [];
+      const malformedRows: Record<string, number> = {};
+
+      for (const file of files) {
+        let data: CsvData;
+        if (isSpreadsheetFile(file.name)) {
+          const workbook = await readWorkbook(file);
+          data = await sheetToCsvData(workbook, workbook.SheetNames[0], 1, file.name);
+        } else if (isJsonFile(file.name)) {
+          const result = await parseJsonFile(file);
+          data = result.data;
+          malformedRows[file.name] = result.skippedCount;
+        } else {
+          const result = await parseFile(file, getParseOptions());
+          if (!result) {
+            toast({
+              title: "CSV Parsing Cancelled",
+              description: `Stopped reading ${file.name}. The current data was left unchanged.`
+            });
+            return;
+          }
+          data = result.data;
+          malformedRows[file.name] = result.diagnostics.filter(diagnostic => diagnostic.rowIndex >= 0).length;
+        }
+        sources.push({ name: file.name, data });
+      }
+
+      setPendingUpload(null);
+      setPendingSpreadsheet(null);
+      setPendingMerge({ sources, malformedRows });
+    } catch (error) {
+      showParseError(error);
+    } finally {
+      setIsReadingFiles(false);
+      setFileInputKey(Date.now());
+    }
+  }, [toast, parseFile, getParseOptions, showParseError]);
 
-    console.log(`✅ CSV parsing complete: ${rows.length} data rows found`);
-    return { headers, rows };
+  const handleMerge = (data: CsvData, warnings: string[]) => {
+    try {
+      commitData(data);
+      if (warnings.length > 0) {
+        toast({
+          title: "Files Combined With Warnings",
+          description: warnings.join('. '),
+          variant: "destructive"
+        });
+      }
+    } catch (error) {
+      showParseError(error);
+    }
   };
 
-  const handleFileUpload = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
+  const handleFileUpload = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files || []);
+    if (files.length > 1) {
+      handleMultipleUpload(files);
+      return;
+    }
+
+    const file = files[0];
     if (!file) return;
 
+    if (isSpreadsheetFile(file.name)) {
+      handleSpreadsheetUpload(file);
+      return;
+    }
+
+    if (isJsonFile(file.name)) {
+      handleJsonUpload(file);
+      return;
+    }
+
     if (!file.name.toLowerCase().endsWith('.csv')) {
       toast({
         title: "Invalid File Type",
-        description: "Please upload a CSV file",
+        description: `Please upload a CSV, spreadsheet (${SPREADSHEET_EXTENSIONS.join(', ')}) or JSON (${JSON_EXTENSIONS.join(', ')}) file`,
         variant: "destructive"
       });
       return;
     }
 
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      try {
-        const csvText = e.target?.result as string;
-        const csvData = parseCsv(csvText);
-        
-        if (csvData.headers.length === 0) {
-          throw new Error('No headers found in CSV');
-        }
+    try {
+      const result = await parseFile(file, getParseOptions());
+      // Reset file input to allow uploading the same file again
+      setFileInputKey(Date.now());
 
-        setHasData(true);
-        onUpload(csvData);
-        // Reset file input to allow uploading the same file again
-        setFileInputKey(Date.now());
-        
+      if (!result) {
         toast({
-          title: "CSV Uploaded Successfully",
-          description: `Found ${csvData.rows.length} rows with ${csvData.headers.length} columns`
+          title: "CSV Parsing Cancelled",
+          description: `Stopped parsing ${file.name}. The current data was left unchanged.`
         });
-      } catch (error) {
-        console.error('CSV parsing error:', error);
+        return;
+      }
+
+      setPendingSpreadsheet(null);
+      setPendingMerge(null);
+      setPendingUpload(createPendingUpload(file, result));
+      setDialect(result.dialect);
+    } catch (error) {
+      setFileInputKey(Date.now());
+      showParseError(error);
+    }
+  }, [toast, parseFile, getParseOptions, showParseError, handleSpreadsheetUpload, handleJsonUpload, handleMultipleUpload]);
+
+  const showRowFixesCleared = useCallback(() => {
+    toast({
+      title: "Row Fixes Cleared",
+      description: "The file was parsed again with the new settings, so excluded and edited rows were reset. Review the flagged rows again.",
+      variant: "destructive"
+    });
+  }, [toast]);
+
+  // A different encoding changes the decoded text itself, so the file is parsed again straight away
+  const reparsePending = useCallback(async (options: CsvParseOptions) => {
+    if (!pendingUpload) return;
+
+    try {
+      const result = await parseFile(pendingUpload.file, { ...options, dialect });
+      if (result) {
+        setPendingUpload(createPendingUpload(pendingUpload.file, result));
+        if (hasRowFixes(pendingUpload)) showRowFixesCleared();
+      }
+    } catch (error) {
+      showParseError(error);
+    }
+  }, [pendingUpload, dialect, parseFile, showParseError, showRowFixesCleared]);
+
+  const handleEncodingChange = (encoding: string) => {
+    setEncodingOverride(encoding);
+    reparsePending({
+      encoding: encoding === AUTO_ENCODING ? undefined : encoding,
+      fallbackEncodings
+    });
+  };
+
+  const handleFallbackEncodingsChange = (encodings: string[]) => {
+    setFallbackEncodings(encodings);
+    if (encodingOverride === AUTO_ENCODING) {
+      reparsePending({ fallbackEncodings: encodings });
+    }
+  };
+
+  const handleContinue = useCallback(async () => {
+    if (!pendingUpload || !dialect) return;
+
+    try {
+      const { file, result, excludedRows } = pendingUpload;
+      const dialectChanged = (Object.keys(dialect) as (keyof CsvDialect)[])
+        .some(key => dialect[key] !== result.dialect[key]);
+
+      if (!dialectChanged) {
+        commitData(removeRows(result.data, excludedRows));
+        return;
+      }
+
+      // The overridden settings only touched the preview so far, so parse the whole file again
+      const reparsed = await parseFile(file, getParseOptions({ dialect }));
+      if (!reparsed) return;
+
+      // Fixes chosen for the old rows do not carry over, so the new rows are shown for review instead
+      if (hasRowFixes(pendingUpload)) {
+        setPendingUpload(createPendingUpload(file, reparsed));
+        showRowFixesCleared();
+        return;
+      }
+
+      if (reparsed.diagnostics.length > 0) {
+        setPendingUpload(createPendingUpload(file, reparsed));
         toast({
-          title: "Error Parsing CSV",
-          description: "Please check your CSV format and try again. Make sure text fields with commas or line breaks are properly quoted.",
+          title: "Malformed Rows Found",
+          description: `${reparsed.diagnostics.length} rows need attention with the new format settings. Review them before continuing.`,
           variant: "destructive"
         });
+        return;
       }
-    };
 
-    reader.readAsText(file);
-  }, [onUpload, toast]);
+      commitData(reparsed.data);
+    } catch (error) {
+      showParseError(error);
+    }
+  }, [pendingUpload, dialect, parseFile, getParseOptions, commitData, showParseError, showRowFixesCleared, toast]);
+
+  const handleDiagnosticCellChange = (rowIndex: number, columnId: string, value: string) => {
+    setPendingUpload(prev => prev && {
+      ...prev,
+      result: { ...prev.result, data: updateCell(prev.result.data, rowIndex, columnId, value) },
+      editedRows: new Set(prev.editedRows).add(rowIndex)
+    });
+  };
+
+  const progressPercent = progress && progress.totalBytes > 0
+    ? Math.round((progress.bytesRead / progress.totalBytes) * 100)
+    : 0;
 
   return (
     <Card>
@@ -203,28 +414,124 @@ const CsvUpload: React.FC<CsvUploadProps> = ({ onUpload, initialData }) => {
               <p className="text-gray-500">
                 {hasData 
                   ? 'Replace the current CSV data with a new file. This will clear existing field mappings.'
-                  : 'Select a CSV file with headers in the first row'
+                  : 'Select a CSV file; the delimiter and header row are detected for you'
                 }
               </p>
             </div>
-            <div className="relative">
-              <input
-                key={fileInputKey}
-                type="file"
-                accept=".csv"
-                onChange={handleFileUpload}
-                className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
-              />
-              <Button className="bg-blue-600 hover:bg-blue-700 flex items-center gap-2">
-                <Upload className="w-4 h-4" />
-                {hasData ? 'Choose New CSV File' : 'Choose CSV File'}
-              </Button>
-            </div>
+            {isReadingWorkbook ? (
+              <div className="flex items-center justify-center gap-2 text-sm text-gray-600">
+                <Loader2 className="w-4 h-4 animate-spin" />
+                Reading workbook...
+              </div>
+            ) : isParsing ? (
+              <div className="max-w-md mx-auto space-y-2">
+                <div className="flex items-center justify-center gap-2 text-sm text-gray-600">
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                  Parsing CSV... {progressPercent}% ({progress?.rowsParsed.toLocaleString() ?? 0} rows)
+                </div>
+                <Progress value={progressPercent} className="h-2" />
+                <Button variant="outline" onClick={cancelParse} className="flex items-center gap-2 mx-auto">
+                  <X className="w-4 h-4" />
+                  Cancel Parsing
+                </Button>
+              </div>
+            ) : isReadingFiles ? (
+              <div className="flex items-center justify-center gap-2 text-sm text-gray-600">
+                <Loader2 className="w-4 h-4 animate-spin" />
+                Reading files...
+              </div>
+            ) : (
+              <div className="relative">
+                <input
+                  key={fileInputKey}
+                  type="file"
+                  multiple
+                  accept={['.csv', ...SPREADSHEET_EXTENSIONS, ...JSON_EXTENSIONS].join(',')}
+                  onChange={handleFileUpload}
+                  className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
+                />
+                <Button className="bg-blue-600 hover:bg-blue-700 flex items-center gap-2">
+                  <Upload className="w-4 h-4" />
+                  {hasData ? 'Choose New File' : 'Choose File'}
+                </Button>
+              </div>
+            )}
             <p className="text-sm text-gray-400">
-              Supported format: CSV with comma-separated values. Text fields containing commas or line breaks should be enclosed in quotes.
+              Supported formats: CSV separated by commas, semicolons, tabs or pipes (detected automatically), Excel (.xlsx) and OpenDocument (.ods) spreadsheets, JSON arrays (.json) and newline-delimited JSON (.ndjson). Text fields containing delimiters or line breaks should be enclosed in quotes. Select several files at once to append or join them.
             </p>
           </div>
         </div>
+
+        {pendingMerge && !isReadingFiles && (
+          <div className="mt-4">
+            <MergePanel
+              key={pendingMerge.sources.map(source => source.name).join('\n')}
+              sources={pendingMerge.sources}
+              malformedRows={pendingMerge.malformedRows}
+              onMerge={handleMerge}
+              onDiscard={() => setPendingMerge(null)}
+            />
+          </div>
+        )}
+
+        {pendingSpreadsheet && !isReadingWorkbook && (
+          <div className="mt-4 space-y-4">
+            <SpreadsheetPanel
+              workbook={pendingSpreadsheet.workbook}
+              sheetName={pendingSpreadsheet.sheetName}
+              headerRow={pendingSpreadsheet.headerRow}
+              onSheetChange={(sheetName) => setPendingSpreadsheet({ ...pendingSpreadsheet, sheetName, headerRow: 1 })}
+              onHeaderRowChange={(headerRow) => setPendingSpreadsheet({ ...pendingSpreadsheet, headerRow })}
+            />
+            <div className="flex gap-3">
+              <Button onClick={handleSpreadsheetContinue} className="bg-blue-600 hover:bg-blue-700 flex items-center gap-2">
+                <ArrowRight className="w-4 h-4" />
+                Use This Sheet & Continue
+              </Button>
+              <Button variant="outline" onClick={() => setPendingSpreadsheet(null)}>
+                Discard
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {pendingUpload && dialect && !isParsing && (
+          <div className="mt-4 space-y-4">
+            <div className="p-4 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800">
+              <strong>{pendingUpload.file.name}</strong> was read as {pendingUpload.result.data.rows.length} rows with {pendingUpload.result.data.headers.length} columns.
+              Check the preview below and adjust the format settings if the columns look wrong.
+            </div>
+            <EncodingPanel
+              encodingInfo={pendingUpload.result.encoding}
+              encodingOverride={encodingOverride}
+              fallbackEncodings={fallbackEncodings}
+              onEncodingChange={handleEncodingChange}
+              onFallbackEncodingsChange={handleFallbackEncodingsChange}
+            />
+            <DialectPanel
+              dialect={dialect}
+              detectedDialect={pendingUpload.result.dialect}
+              sampleText={pendingUpload.result.sampleText}
+              onDialectChange={setDialect}
+            />
+            <ParseDiagnosticsReport
+              data={pendingUpload.result.data}
+              diagnostics={pendingUpload.result.diagnostics}
+              excludedRows={pendingUpload.excludedRows}
+              onExcludedRowsChange={(excludedRows) => setPendingUpload({ ...pendingUpload, excludedRows })}
+              onCellChange={handleDiagnosticCellChange}
+            />
+            <div className="flex gap-3">
+              <Button onClick={handleContinue} className="bg-blue-600 hover:bg-blue-700 flex items-center gap-2">
+                <ArrowRight className="w-4 h-4" />
+                Use This Data & Continue
+              </Button>
+              <Button variant="outline" onClick={() => setPendingUpload(null)}>
+                Discard
+              </Button>
+            </div>
+          </div>
+        )}
         
         {hasData && initialData && (
           <div className="mt-4 p-4 bg-blue-50 rounded-lg">
@@ -233,6 +540,26 @@ const CsvUpload: React.FC<CsvUploadProps> = ({ onUpload, initialData }) => {
               <p>• {initialData.rows.length} data rows</p>
               <p>• {initialData.headers.length} columns: {initialData.headers.slice(0, 3).join(', ')}{initialData.headers.length > 3 ? '...' : ''}</p>
             </div>
+            {showHeaderReview ? (
+              <div className="mt-3">
+                <HeaderReviewPanel
+                  columns={getColumns(initialData)}
+                  onRename={(columnId, header) => onDataChange(renameColumn(initialData, columnId, header))}
+                />
+                <Button variant="outline" size="sm" className="mt-2" onClick={() => setShowHeaderReview(false)}>
+                  Done Renaming
+                </Button>
+              </div>
+            ) : (
+              <Button variant="outline" size="sm" className="mt-3 flex items-center gap-2" onClick={() => setShowHeaderReview(true)}>
+                <Pencil className="w-3 h-3" />
+                Rename Columns
+              </Button>
+            )}
+            <div className="mt-4">
+              <h4 className="font-medium text-blue-900 mb-2">Data Preview:</h4>
+              <DataPreviewGrid data={initialData} onDataChange={onDataChange} />
+            </div>
           </div>
         )}
       </CardContent>
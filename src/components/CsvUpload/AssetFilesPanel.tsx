@@ -0,0 +1,134 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { AssetSource, ContentstackConfig } from '@/types/contentstack';
+import { getFolderAssetFiles, readZipAssetFiles } from '@/utils/assetFiles';
+import { AssetUploader, getFolderLabels } from '@/utils/assetUploader';
+import { FileArchive, FolderOpen, Images, Loader2, X } from 'lucide-react';
+
+const ROOT_FOLDER = 'root';
+
+interface AssetFilesPanelProps {
+  config: ContentstackConfig;
+  source: AssetSource;
+  onChange: (source: AssetSource) => void;
+}
+
+const AssetFilesPanel: React.FC<AssetFilesPanelProps> = ({ config, source, onChange }) => {
+  const { toast } = useToast();
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const zipInputRef = useRef<HTMLInputElement>(null);
+  const [folders, setFolders] = useState<{ uid: string; label: string }[] | null>(null);
+  const [isReading, setIsReading] = useState(false);
+  const hasFiles = source.files.length > 0;
+
+  // Asset folders are only loaded once files are chosen, as that is when one has to be picked
+  useEffect(() => {
+    if (!hasFiles || folders) return;
+    new AssetUploader(config).listFolders()
+      .then(result => setFolders(getFolderLabels(result)))
+      .catch(error => {
+        setFolders([]);
+        toast({
+          title: "Could Not Load Asset Folders",
+          description: error instanceof Error ? error.message : String(error),
+          variant: "destructive"
+        });
+      });
+  }, [hasFiles, folders, config, toast]);
+
+  const handleFolderChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = getFolderAssetFiles(e.target.files ?? []);
+    e.target.value = '';
+    onChange({ ...source, files });
+    toast({ title: "Asset Files Selected", description: `Found ${files.length} files in the folder.` });
+  };
+
+  const handleZipChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const zip = e.target.files?.[0];
+    e.target.value = '';
+    if (!zip) return;
+
+    setIsReading(true);
+    try {
+      const files = await readZipAssetFiles(zip);
+      onChange({ ...source, files });
+      toast({ title: "Asset Files Selected", description: `Found ${files.length} files in ${zip.name}.` });
+    } catch (error) {
+      toast({
+        title: "Error Reading ZIP",
+        description: "The archive could not be opened. Please check that it is a valid .zip file.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  return (
+    <div className="p-4 border rounded-lg space-y-3">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <h4 className="font-medium text-gray-900 flex items-center gap-2">
+            <Images className="w-4 h-4" />
+            Asset Files (optional)
+          </h4>
+          <p className="text-xs text-gray-500">
+            File fields whose cells name a file, such as "hero.png", upload the matching file as an asset during the import
+          </p>
+        </div>
+        <div className="flex gap-2 shrink-0">
+          <Button variant="outline" size="sm" onClick={() => folderInputRef.current?.click()} disabled={isReading}>
+            <FolderOpen className="w-4 h-4 mr-2" />
+            Choose Folder
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => zipInputRef.current?.click()} disabled={isReading}>
+            {isReading ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <FileArchive className="w-4 h-4 mr-2" />}
+            Upload ZIP
+          </Button>
+        </div>
+        <input
+          ref={folderInputRef}
+          type="file"
+          multiple
+          className="hidden"
+          onChange={handleFolderChange}
+          {...{ webkitdirectory: '', directory: '' }}
+        />
+        <input ref={zipInputRef} type="file" accept=".zip,application/zip" className="hidden" onChange={handleZipChange} />
+      </div>
+
+      {hasFiles && (
+        <div className="flex items-center gap-4 p-3 bg-gray-50 border rounded">
+          <span className="text-sm text-gray-700">
+            {source.files.length} files ready, e.g. {source.files.slice(0, 3).map(file => file.path).join(', ')}
+          </span>
+          <div className="flex items-center gap-2 ml-auto">
+            <Label className="text-sm shrink-0">Upload into</Label>
+            <Select
+              value={source.folderUid ?? ROOT_FOLDER}
+              onValueChange={(folderUid) => onChange({ ...source, folderUid: folderUid === ROOT_FOLDER ? undefined : folderUid })}
+            >
+              <SelectTrigger className="w-[220px] bg-white">
+                <SelectValue placeholder={folders ? 'Choose a folder' : 'Loading folders...'} />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ROOT_FOLDER}>Assets root</SelectItem>
+                {folders?.map(folder => (
+                  <SelectItem key={folder.uid} value={folder.uid}>{folder.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="ghost" size="sm" title="Clear files" onClick={() => onChange({ files: [] })}>
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AssetFilesPanel;
@@ -0,0 +1,246 @@
+import React, { useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+import { cn } from '@/lib/utils';
+import { CsvData } from '@/types/contentstack';
+import { getColumns, removeRows, updateCell } from '@/utils/csvDataUtils';
+import { ArrowDown, ArrowUp, ArrowUpDown, Columns, Search, Trash2 } from 'lucide-react';
+
+// Rows have a fixed height so the visible slice can be worked out from the scroll offset alone
+const ROW_HEIGHT = 36;
+const VIEWPORT_HEIGHT = 400;
+const OVERSCAN = 10;
+const COLUMN_WIDTH = 180;
+
+type SortDirection = 'asc' | 'desc';
+
+interface SortState {
+  columnId: string;
+  direction: SortDirection;
+}
+
+interface EditingCell {
+  rowIndex: number;
+  columnId: string;
+  value: string;
+}
+
+interface DataPreviewGridProps {
+  data: CsvData;
+  onDataChange: (data: CsvData) => void;
+}
+
+const compareValues = (a: string, b: string): number => {
+  const numA = Number(a);
+  const numB = Number(b);
+  if (a.trim() !== '' && b.trim() !== '' && !isNaN(numA) && !isNaN(numB)) {
+    return numA - numB;
+  }
+  return a.localeCompare(b, undefined, { numeric: true, sensitivity: 'base' });
+};
+
+const DataPreviewGrid: React.FC<DataPreviewGridProps> = ({ data, onDataChange }) => {
+  const [search, setSearch] = useState('');
+  const [sort, setSort] = useState<SortState | null>(null);
+  const [hiddenColumns, setHiddenColumns] = useState<Set<string>>(new Set());
+  const [editingCell, setEditingCell] = useState<EditingCell | null>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+
+  const columns = useMemo(() => getColumns(data), [data]);
+  const visibleColumns = useMemo(
+    () => columns.filter(column => !hiddenColumns.has(column.id)),
+    [columns, hiddenColumns]
+  );
+
+  // Sorting, searching and hiding only change the view; edits and deletes address rows by their index in data.rows
+  const rowIndexes = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    let indexes = data.rows.map((_, index) => index);
+
+    if (query) {
+      indexes = indexes.filter(index =>
+        visibleColumns.some(column => (data.rows[index][column.id] ?? '').toLowerCase().includes(query))
+      );
+    }
+
+    if (sort) {
+      const factor = sort.direction === 'asc' ? 1 : -1;
+      indexes.sort((a, b) =>
+        factor * compareValues(data.rows[a][sort.columnId] ?? '', data.rows[b][sort.columnId] ?? '')
+      );
+    }
+
+    return indexes;
+  }, [data.rows, search, sort, visibleColumns]);
+
+  const firstVisible = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const lastVisible = Math.min(rowIndexes.length, Math.ceil((scrollTop + VIEWPORT_HEIGHT) / ROW_HEIGHT) + OVERSCAN);
+  const windowRows = rowIndexes.slice(firstVisible, lastVisible);
+
+  const toggleSort = (columnId: string) => {
+    if (sort?.columnId !== columnId) {
+      setSort({ columnId, direction: 'asc' });
+    } else if (sort.direction === 'asc') {
+      setSort({ columnId, direction: 'desc' });
+    } else {
+      setSort(null);
+    }
+  };
+
+  const toggleColumn = (columnId: string, visible: boolean) => {
+    const next = new Set(hiddenColumns);
+    if (visible) {
+      next.delete(columnId);
+    } else {
+      next.add(columnId);
+    }
+    setHiddenColumns(next);
+  };
+
+  const commitEdit = () => {
+    if (!editingCell) return;
+    const { rowIndex, columnId, value } = editingCell;
+    setEditingCell(null);
+    if ((data.rows[rowIndex][columnId] ?? '') !== value) {
+      onDataChange(updateCell(data, rowIndex, columnId, value));
+    }
+  };
+
+  const deleteRow = (rowIndex: number) => {
+    setEditingCell(null);
+    onDataChange(removeRows(data, [rowIndex]));
+  };
+
+  const getSortIcon = (columnId: string) => {
+    if (sort?.columnId !== columnId) return <ArrowUpDown className="w-3 h-3 text-gray-300" />;
+    return sort.direction === 'asc' ? <ArrowUp className="w-3 h-3" /> : <ArrowDown className="w-3 h-3" />;
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <div className="relative flex-1">
+          <Search className="w-4 h-4 text-gray-400 absolute left-2 top-1/2 -translate-y-1/2" />
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search visible columns..."
+            className="pl-8 h-9 bg-white"
+          />
+        </div>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm" className="flex items-center gap-2">
+              <Columns className="w-4 h-4" />
+              Columns ({visibleColumns.length}/{columns.length})
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end" className="max-h-80 overflow-y-auto">
+            <DropdownMenuLabel>Show columns</DropdownMenuLabel>
+            <DropdownMenuSeparator />
+            {columns.map(column => (
+              <DropdownMenuCheckboxItem
+                key={column.id}
+                checked={!hiddenColumns.has(column.id)}
+                onCheckedChange={(checked) => toggleColumn(column.id, checked === true)}
+                onSelect={(e) => e.preventDefault()}
+              >
+                {column.header}
+              </DropdownMenuCheckboxItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </div>
+
+      <div
+        className="rounded border bg-white overflow-auto"
+        style={{ height: VIEWPORT_HEIGHT }}
+        onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+      >
+        <table className="text-xs table-fixed border-collapse" style={{ width: 110 + visibleColumns.length * COLUMN_WIDTH }}>
+          <thead className="sticky top-0 z-10 bg-gray-100">
+            <tr style={{ height: ROW_HEIGHT }}>
+              <th className="w-[70px] px-2 text-left font-medium text-gray-500 border-b">Row</th>
+              {visibleColumns.map(column => (
+                <th key={column.id} style={{ width: COLUMN_WIDTH }} className="px-2 text-left font-medium border-b">
+                  <button
+                    type="button"
+                    className="flex items-center gap-1 w-full truncate hover:text-blue-700"
+                    onClick={() => toggleSort(column.id)}
+                    title={column.header}
+                  >
+                    <span className="truncate">{column.header}</span>
+                    {getSortIcon(column.id)}
+                  </button>
+                </th>
+              ))}
+              <th className="w-[40px] border-b" />
+            </tr>
+          </thead>
+          <tbody>
+            {firstVisible > 0 && <tr style={{ height: firstVisible * ROW_HEIGHT }} />}
+            {windowRows.map(rowIndex => (
+              <tr key={rowIndex} style={{ height: ROW_HEIGHT }} className="border-b hover:bg-gray-50">
+                <td className="px-2 text-gray-400">{rowIndex + 1}</td>
+                {visibleColumns.map(column => {
+                  const isEditing = editingCell?.rowIndex === rowIndex && editingCell.columnId === column.id;
+                  const value = data.rows[rowIndex][column.id] ?? '';
+
+                  return (
+                    <td
+                      key={column.id}
+                      className={cn('px-2 truncate cursor-text', isEditing && 'p-0')}
+                      title={value}
+                      onDoubleClick={() => setEditingCell({ rowIndex, columnId: column.id, value })}
+                    >
+                      {isEditing ? (
+                        <Input
+                          autoFocus
+                          value={editingCell.value}
+                          onChange={(e) => setEditingCell({ ...editingCell, value: e.target.value })}
+                          onBlur={commitEdit}
+                          onKeyDown={(e) => {
+                            if (e.key === 'Enter') commitEdit();
+                            if (e.key === 'Escape') setEditingCell(null);
+                          }}
+                          className="h-8 text-xs rounded-none"
+                        />
+                      ) : value}
+                    </td>
+                  );
+                })}
+                <td className="px-1">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 w-7 p-0 text-gray-400 hover:text-red-600"
+                    onClick={() => deleteRow(rowIndex)}
+                    title="Delete row"
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </Button>
+                </td>
+              </tr>
+            ))}
+            {lastVisible < rowIndexes.length && <tr style={{ height: (rowIndexes.length - lastVisible) * ROW_HEIGHT }} />}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="text-xs text-gray-500">
+        {search.trim() ? `${rowIndexes.length} of ${data.rows.length} rows match` : `${data.rows.length} rows`}.
+        Double-click a cell to edit it; changes are saved with the uploaded data.
+      </div>
+    </div>
+  );
+};
+
+export default DataPreviewGrid;
@@ -0,0 +1,143 @@
+import React, { useMemo } from 'react';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { CsvDialect, CsvEscapeStyle, DetectedCsvDialect } from '@/types/csvParser';
+import { CANDIDATE_DELIMITERS, CANDIDATE_QUOTE_CHARS, getDelimiterLabel, parseCsvText } from '@/utils/csvParser';
+import { getColumns } from '@/utils/csvDataUtils';
+
+const PREVIEW_ROW_COUNT = 5;
+
+interface DialectPanelProps {
+  dialect: CsvDialect;
+  detectedDialect: DetectedCsvDialect;
+  sampleText: string;
+  onDialectChange: (dialect: CsvDialect) => void;
+}
+
+const DialectPanel: React.FC<DialectPanelProps> = ({
+  dialect,
+  detectedDialect,
+  sampleText,
+  onDialectChange
+}) => {
+  const preview = useMemo(() => {
+    try {
+      return parseCsvText(sampleText, dialect);
+    } catch (error) {
+      console.warn('Could not build dialect preview:', error);
+      return null;
+    }
+  }, [sampleText, dialect]);
+
+  const previewColumns = preview ? getColumns(preview) : [];
+
+  const updateDialect = <K extends keyof CsvDialect>(key: K, value: CsvDialect[K]) => {
+    onDialectChange({ ...dialect, [key]: value });
+  };
+
+  return (
+    <div className="space-y-4 p-4 border rounded-lg bg-gray-50">
+      <div className="flex items-center justify-between">
+        <h4 className="font-medium text-gray-900">CSV Format</h4>
+        <div className="flex gap-2 text-xs">
+          <Badge variant="secondary">Detected: {getDelimiterLabel(detectedDialect.delimiter)}</Badge>
+          <Badge variant="secondary">Line endings: {detectedDialect.lineEnding}</Badge>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+        <div className="space-y-1">
+          <Label className="text-sm">Delimiter</Label>
+          <Select value={dialect.delimiter} onValueChange={(value) => updateDialect('delimiter', value)}>
+            <SelectTrigger className="bg-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {CANDIDATE_DELIMITERS.map(delimiter => (
+                <SelectItem key={delimiter} value={delimiter}>{getDelimiterLabel(delimiter)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-1">
+          <Label className="text-sm">Quote Character</Label>
+          <Select value={dialect.quoteChar} onValueChange={(value) => updateDialect('quoteChar', value)}>
+            <SelectTrigger className="bg-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {CANDIDATE_QUOTE_CHARS.map(quoteChar => (
+                <SelectItem key={quoteChar} value={quoteChar}>
+                  {quoteChar === '"' ? 'Double quote (")' : "Single quote (')"}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-1">
+          <Label className="text-sm">Escape Style</Label>
+          <Select
+            value={dialect.escapeStyle}
+            onValueChange={(value) => updateDialect('escapeStyle', value as CsvEscapeStyle)}
+          >
+            <SelectTrigger className="bg-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="double">Doubled quote ({dialect.quoteChar}{dialect.quoteChar})</SelectItem>
+              <SelectItem value="backslash">Backslash (\{dialect.quoteChar})</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="flex items-center space-x-2 pb-2">
+          <Switch
+            id="hasHeaderRow"
+            checked={dialect.hasHeaderRow}
+            onCheckedChange={(checked) => updateDialect('hasHeaderRow', checked)}
+          />
+          <Label htmlFor="hasHeaderRow" className="text-sm">First row is header</Label>
+        </div>
+      </div>
+
+      <div>
+        <div className="text-xs text-gray-500 mb-1">
+          Preview of the first {PREVIEW_ROW_COUNT} rows with these settings
+        </div>
+        {preview && previewColumns.length > 0 ? (
+          <div className="overflow-x-auto rounded border bg-white">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  {previewColumns.map(column => (
+                    <TableHead key={column.id} className="whitespace-nowrap">{column.header}</TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {preview.rows.slice(0, PREVIEW_ROW_COUNT).map((row, rowIndex) => (
+                  <TableRow key={rowIndex}>
+                    {previewColumns.map(column => (
+                      <TableCell key={column.id} className="max-w-[200px] truncate text-xs" title={row[column.id]}>
+                        {row[column.id]}
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        ) : (
+          <div className="text-sm text-gray-500">No rows could be read with these settings.</div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DialectPanel;
@@ -0,0 +1,103 @@
+import React from 'react';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { CsvEncodingInfo } from '@/types/csvParser';
+import { ENCODING_OPTIONS, getEncodingLabel } from '@/utils/encoding';
+import { AlertTriangle } from 'lucide-react';
+
+export const AUTO_ENCODING = 'auto';
+
+// UTF encodings are recognised from the bytes themselves, so only legacy code pages make sense as fallbacks
+const FALLBACK_OPTIONS = ENCODING_OPTIONS.filter(option => !option.value.startsWith('utf-'));
+
+interface EncodingPanelProps {
+  encodingInfo: CsvEncodingInfo;
+  encodingOverride: string;
+  fallbackEncodings: string[];
+  onEncodingChange: (encoding: string) => void;
+  onFallbackEncodingsChange: (encodings: string[]) => void;
+}
+
+const EncodingPanel: React.FC<EncodingPanelProps> = ({
+  encodingInfo,
+  encodingOverride,
+  fallbackEncodings,
+  onEncodingChange,
+  onFallbackEncodingsChange
+}) => {
+  const getSourceText = () => {
+    switch (encodingInfo.source) {
+      case 'bom': return 'from byte order mark';
+      case 'detected': return 'detected';
+      case 'fallback': return 'fallback';
+      default: return 'selected manually';
+    }
+  };
+
+  const toggleFallback = (encoding: string, checked: boolean) => {
+    const next = checked
+      ? FALLBACK_OPTIONS.map(option => option.value).filter(value => value === encoding || fallbackEncodings.includes(value))
+      : fallbackEncodings.filter(value => value !== encoding);
+    onFallbackEncodingsChange(next);
+  };
+
+  return (
+    <div className="space-y-4 p-4 border rounded-lg bg-gray-50">
+      <div className="flex items-center justify-between">
+        <h4 className="font-medium text-gray-900">Character Encoding</h4>
+        <div className="flex gap-2 text-xs">
+          <Badge variant="secondary">{getEncodingLabel(encodingInfo.encoding)} ({getSourceText()})</Badge>
+          {encodingInfo.hadBom && <Badge variant="secondary">BOM removed</Badge>}
+        </div>
+      </div>
+
+      {encodingInfo.undecodableCount > 0 && (
+        <div className="flex items-start gap-2 p-3 bg-amber-50 border border-amber-200 rounded text-sm text-amber-800">
+          <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+          <span>
+            {encodingInfo.undecodableCount} character{encodingInfo.undecodableCount === 1 ? '' : 's'} could not be decoded as {getEncodingLabel(encodingInfo.encoding)} and {encodingInfo.undecodableCount === 1 ? 'was' : 'were'} replaced with "�".
+            Choose the encoding the file was saved with to avoid garbled text.
+          </span>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-1">
+          <Label className="text-sm">Encoding</Label>
+          <Select value={encodingOverride} onValueChange={onEncodingChange}>
+            <SelectTrigger className="bg-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={AUTO_ENCODING}>Auto-detect</SelectItem>
+              {ENCODING_OPTIONS.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-1">
+          <Label className="text-sm">Fallbacks when the file is not UTF-8 or UTF-16 (tried in order)</Label>
+          <div className="grid grid-cols-1 gap-1">
+            {FALLBACK_OPTIONS.map(option => (
+              <div key={option.value} className="flex items-center space-x-2">
+                <Checkbox
+                  id={`fallback-${option.value}`}
+                  checked={fallbackEncodings.includes(option.value)}
+                  disabled={encodingOverride !== AUTO_ENCODING}
+                  onCheckedChange={(checked) => toggleFallback(option.value, checked === true)}
+                />
+                <Label htmlFor={`fallback-${option.value}`} className="text-xs font-normal">{option.label}</Label>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default EncodingPanel;
@@ -0,0 +1,90 @@
+import React, { useEffect, useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { CsvColumn } from '@/types/contentstack';
+import { isAutoRenamed } from '@/utils/csvDataUtils';
+import { AlertTriangle } from 'lucide-react';
+
+interface HeaderReviewPanelProps {
+  columns: CsvColumn[];
+  onRename: (columnId: string, header: string) => void;
+}
+
+const HeaderReviewPanel: React.FC<HeaderReviewPanelProps> = ({ columns, onRename }) => {
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    setDrafts(Object.fromEntries(columns.map(column => [column.id, column.header])));
+  }, [columns]);
+
+  const renamedCount = columns.filter(isAutoRenamed).length;
+
+  const getError = (column: CsvColumn): string | null => {
+    const draft = (drafts[column.id] ?? column.header).trim();
+    if (!draft) return 'Name cannot be empty';
+    if (columns.some(other => other.id !== column.id && other.header === draft)) return 'Name is already used';
+    return null;
+  };
+
+  const commitDraft = (column: CsvColumn) => {
+    const draft = (drafts[column.id] ?? column.header).trim();
+    if (getError(column) || draft === column.header) return;
+    onRename(column.id, draft);
+  };
+
+  return (
+    <div className="space-y-3">
+      {renamedCount > 0 && (
+        <div className="flex items-start gap-2 p-3 bg-amber-50 border border-amber-200 rounded text-sm text-amber-800">
+          <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+          <span>
+            {renamedCount} column{renamedCount === 1 ? ' had a' : 's had'} blank or duplicate header{renamedCount === 1 ? '' : 's'} and {renamedCount === 1 ? 'was' : 'were'} renamed automatically.
+            Give them meaningful names below; field mappings follow the column, not its name.
+          </span>
+        </div>
+      )}
+
+      <div className="rounded border bg-white max-h-80 overflow-y-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-[60px]">#</TableHead>
+              <TableHead>Header in File</TableHead>
+              <TableHead>Column Name</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {columns.map((column, index) => {
+              const error = getError(column);
+
+              return (
+                <TableRow key={column.id}>
+                  <TableCell className="text-xs text-gray-500">{index + 1}</TableCell>
+                  <TableCell className="text-xs">
+                    {column.sourceHeader.trim() ? column.sourceHeader : <span className="italic text-gray-400">(blank)</span>}
+                    {isAutoRenamed(column) && (
+                      <Badge variant="secondary" className="ml-2 text-[10px]">Auto-renamed</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      value={drafts[column.id] ?? column.header}
+                      onChange={(e) => setDrafts({ ...drafts, [column.id]: e.target.value })}
+                      onBlur={() => commitDraft(column)}
+                      onKeyDown={(e) => e.key === 'Enter' && commitDraft(column)}
+                      className={`h-8 text-xs ${error ? 'border-red-500' : ''}`}
+                    />
+                    {error && <div className="text-xs text-red-600 mt-1">{error}</div>}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+};
+
+export default HeaderReviewPanel;
@@ -0,0 +1,164 @@
+import React, { useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { CsvData } from '@/types/contentstack';
+import { CsvSource, appendCsvData, findHeaderMismatches, getSharedHeaders, joinCsvData } from '@/utils/csvMerge';
+import { AlertTriangle, ArrowRight } from 'lucide-react';
+
+type MergeMode = 'append' | 'join';
+
+interface MergePanelProps {
+  sources: CsvSource[];
+  // Malformed rows per file name, as reported by the CSV parser
+  malformedRows: Record<string, number>;
+  onMerge: (data: CsvData, warnings: string[]) => void;
+  onDiscard: () => void;
+}
+
+const MergePanel: React.FC<MergePanelProps> = ({ sources, malformedRows, onMerge, onDiscard }) => {
+  const mismatches = useMemo(() => findHeaderMismatches(sources), [sources]);
+  const sharedHeaders = useMemo(() => getSharedHeaders(sources), [sources]);
+  const [mode, setMode] = useState<MergeMode>(mismatches.length > 0 ? 'join' : 'append');
+  const [primaryName, setPrimaryName] = useState(sources[0]?.name);
+  const [keyHeader, setKeyHeader] = useState(sharedHeaders[0] ?? '');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleMerge = () => {
+    setError(null);
+    try {
+      if (mode === 'append') {
+        onMerge(appendCsvData(sources), []);
+        return;
+      }
+
+      const primary = sources.find(source => source.name === primaryName);
+      const others = sources.filter(source => source !== primary);
+      const { data, unmatchedRows, duplicateKeys } = joinCsvData(primary, others, keyHeader);
+
+      const warnings = others.flatMap(source => [
+        ...(unmatchedRows[source.name] > 0
+          ? [`${unmatchedRows[source.name]} rows of "${primary.name}" have no matching ${keyHeader} in "${source.name}"`]
+          : []),
+        ...(duplicateKeys[source.name].length > 0
+          ? [`"${source.name}" repeats ${duplicateKeys[source.name].length} ${keyHeader} values; only the first row of each was used`]
+          : [])
+      ]);
+      onMerge(data, warnings);
+    } catch (mergeError) {
+      setError(mergeError instanceof Error ? mergeError.message : String(mergeError));
+    }
+  };
+
+  return (
+    <div className="space-y-4 p-4 border rounded-lg bg-gray-50">
+      <h4 className="font-medium text-gray-900">Combine {sources.length} Files</h4>
+
+      <div className="rounded border bg-white">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>File</TableHead>
+              <TableHead className="w-[100px]">Rows</TableHead>
+              <TableHead className="w-[100px]">Columns</TableHead>
+              <TableHead className="w-[140px]">Malformed Rows</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {sources.map(source => (
+              <TableRow key={source.name}>
+                <TableCell className="text-sm font-medium">{source.name}</TableCell>
+                <TableCell className="text-sm">{source.data.rows.length}</TableCell>
+                <TableCell className="text-sm">{source.data.headers.length}</TableCell>
+                <TableCell className={`text-sm ${malformedRows[source.name] ? 'text-amber-700' : ''}`}>
+                  {malformedRows[source.name] || 0}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      <RadioGroup value={mode} onValueChange={(value) => setMode(value as MergeMode)} className="space-y-2">
+        <div className="flex items-start space-x-2">
+          <RadioGroupItem value="append" id="merge-append" className="mt-1" />
+          <Label htmlFor="merge-append" className="font-normal">
+            <span className="font-medium">Append rows</span> - the files are parts of one export and have the same columns
+          </Label>
+        </div>
+        <div className="flex items-start space-x-2">
+          <RadioGroupItem value="join" id="merge-join" className="mt-1" />
+          <Label htmlFor="merge-join" className="font-normal">
+            <span className="font-medium">Join on a key column</span> - add the columns of the other files to the rows of a main file
+          </Label>
+        </div>
+      </RadioGroup>
+
+      {mode === 'append' && mismatches.length > 0 && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded text-sm text-red-700 space-y-1">
+          {mismatches.map(mismatch => <div key={mismatch}>{mismatch}</div>)}
+        </div>
+      )}
+
+      {mode === 'join' && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-1">
+            <Label className="text-sm">Main File</Label>
+            <Select value={primaryName} onValueChange={setPrimaryName}>
+              <SelectTrigger className="bg-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {sources.map(source => (
+                  <SelectItem key={source.name} value={source.name}>{source.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-sm">Key Column</Label>
+            {sharedHeaders.length > 0 ? (
+              <Select value={keyHeader} onValueChange={setKeyHeader}>
+                <SelectTrigger className="bg-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {sharedHeaders.map(header => (
+                    <SelectItem key={header} value={header}>{header}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            ) : (
+              <div className="text-sm text-red-700">The files have no column name in common to join on.</div>
+            )}
+          </div>
+        </div>
+      )}
+
+      {error && (
+        <div className="flex items-start gap-2 p-3 bg-red-50 border border-red-200 rounded text-sm text-red-700 whitespace-pre-line">
+          <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+          {error}
+        </div>
+      )}
+
+      <div className="flex gap-3">
+        <Button
+          onClick={handleMerge}
+          disabled={mode === 'append' ? mismatches.length > 0 : !keyHeader}
+          className="bg-blue-600 hover:bg-blue-700 flex items-center gap-2"
+        >
+          <ArrowRight className="w-4 h-4" />
+          Combine & Continue
+        </Button>
+        <Button variant="outline" onClick={onDiscard}>
+          Discard
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default MergePanel;
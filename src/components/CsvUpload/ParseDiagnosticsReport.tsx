@@ -0,0 +1,167 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { CsvData } from '@/types/contentstack';
+import { CsvRecordIssue, CsvRowDiagnostic } from '@/types/csvParser';
+import { getColumns } from '@/utils/csvDataUtils';
+import { AlertTriangle, Pencil } from 'lucide-react';
+
+const PAGE_SIZE = 100;
+
+const ISSUE_LABELS: Record<CsvRecordIssue, string> = {
+  column_count: 'Column count',
+  unterminated_quote: 'Unterminated quote',
+  long_quoted_value: 'Long quoted value',
+  stray_characters: 'Stray characters'
+};
+
+interface ParseDiagnosticsReportProps {
+  data: CsvData;
+  diagnostics: CsvRowDiagnostic[];
+  excludedRows: Set<number>;
+  onExcludedRowsChange: (excludedRows: Set<number>) => void;
+  onCellChange: (rowIndex: number, columnId: string, value: string) => void;
+}
+
+const ParseDiagnosticsReport: React.FC<ParseDiagnosticsReportProps> = ({
+  data,
+  diagnostics,
+  excludedRows,
+  onExcludedRowsChange,
+  onCellChange
+}) => {
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+  const [editingRow, setEditingRow] = useState<number | null>(null);
+
+  // A new parse brings new rows, so nothing from the previous report stays open
+  useEffect(() => {
+    setVisibleCount(PAGE_SIZE);
+    setEditingRow(null);
+  }, [diagnostics]);
+
+  if (diagnostics.length === 0) return null;
+
+  const flaggedRows = diagnostics.filter(d => d.rowIndex >= 0).map(d => d.rowIndex);
+  const headerIssue = diagnostics.find(d => d.rowIndex === -1);
+
+  const toggleExcluded = (rowIndex: number, excluded: boolean) => {
+    const next = new Set(excludedRows);
+    if (excluded) {
+      next.add(rowIndex);
+    } else {
+      next.delete(rowIndex);
+    }
+    onExcludedRowsChange(next);
+  };
+
+  return (
+    <div className="space-y-3 p-4 border border-amber-200 rounded-lg bg-amber-50">
+      <div className="flex items-center justify-between">
+        <h4 className="font-medium text-amber-900 flex items-center gap-2">
+          <AlertTriangle className="w-4 h-4" />
+          {diagnostics.length} malformed row{diagnostics.length === 1 ? '' : 's'} found
+        </h4>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={() => onExcludedRowsChange(new Set(flaggedRows))}>
+            Exclude All Flagged Rows
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => onExcludedRowsChange(new Set())} disabled={excludedRows.size === 0}>
+            Include All
+          </Button>
+        </div>
+      </div>
+
+      <p className="text-sm text-amber-800">
+        Missing values would be left empty and extra values dropped. Exclude these rows or fix their values before continuing.
+        {excludedRows.size > 0 && ` ${excludedRows.size} row${excludedRows.size === 1 ? '' : 's'} will be excluded.`}
+      </p>
+
+      {headerIssue && (
+        <div className="text-sm text-red-700 p-2 bg-red-50 border border-red-200 rounded">
+          The header row (line {headerIssue.lineNumber}) is malformed: {headerIssue.message}. Check the CSV format settings.
+        </div>
+      )}
+
+      <div className="rounded border bg-white max-h-96 overflow-y-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-[70px]">Line</TableHead>
+              <TableHead>Issue</TableHead>
+              <TableHead>Snippet</TableHead>
+              <TableHead className="w-[90px]">Exclude</TableHead>
+              <TableHead className="w-[70px]">Fix</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {diagnostics.filter(d => d.rowIndex >= 0).slice(0, visibleCount).map(diagnostic => (
+              <React.Fragment key={diagnostic.rowIndex}>
+                <TableRow className={excludedRows.has(diagnostic.rowIndex) ? 'opacity-50' : ''}>
+                  <TableCell className="text-xs font-medium">{diagnostic.lineNumber}</TableCell>
+                  <TableCell className="text-xs">
+                    <div className="flex flex-wrap gap-1 mb-1">
+                      {diagnostic.issues.map(issue => (
+                        <Badge key={issue} variant="secondary" className="text-[10px]">{ISSUE_LABELS[issue]}</Badge>
+                      ))}
+                    </div>
+                    {diagnostic.message}
+                  </TableCell>
+                  <TableCell className="max-w-xs">
+                    <code className="block truncate text-xs text-gray-600" title={diagnostic.snippet}>{diagnostic.snippet}</code>
+                  </TableCell>
+                  <TableCell>
+                    <Checkbox
+                      checked={excludedRows.has(diagnostic.rowIndex)}
+                      onCheckedChange={(checked) => toggleExcluded(diagnostic.rowIndex, checked === true)}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 w-7 p-0"
+                      disabled={excludedRows.has(diagnostic.rowIndex)}
+                      onClick={() => setEditingRow(editingRow === diagnostic.rowIndex ? null : diagnostic.rowIndex)}
+                    >
+                      <Pencil className="w-3 h-3" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+                {editingRow === diagnostic.rowIndex && (
+                  <TableRow>
+                    <TableCell colSpan={5} className="bg-gray-50">
+                      <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+                        {getColumns(data).map(column => (
+                          <div key={column.id}>
+                            <Label className="text-xs">{column.header}</Label>
+                            <Input
+                              value={data.rows[diagnostic.rowIndex]?.[column.id] ?? ''}
+                              onChange={(e) => onCellChange(diagnostic.rowIndex, column.id, e.target.value)}
+                              className="h-8 text-xs bg-white"
+                            />
+                          </div>
+                        ))}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                )}
+              </React.Fragment>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      {flaggedRows.length > visibleCount && (
+        <Button variant="outline" size="sm" onClick={() => setVisibleCount(visibleCount + PAGE_SIZE)}>
+          Show {Math.min(PAGE_SIZE, flaggedRows.length - visibleCount)} more of {flaggedRows.length - visibleCount} remaining
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default ParseDiagnosticsReport;
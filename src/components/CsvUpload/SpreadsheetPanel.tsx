@@ -0,0 +1,112 @@
+import React, { useEffect, useState } from 'react';
+import type { WorkBook } from 'xlsx';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableRow } from '@/components/ui/table';
+import { cn } from '@/lib/utils';
+import { getSheetPreview } from '@/utils/spreadsheetParser';
+
+const PREVIEW_ROW_COUNT = 10;
+
+interface SpreadsheetPanelProps {
+  workbook: WorkBook;
+  sheetName: string;
+  headerRow: number;
+  onSheetChange: (sheetName: string) => void;
+  onHeaderRowChange: (headerRow: number) => void;
+}
+
+const SpreadsheetPanel: React.FC<SpreadsheetPanelProps> = ({
+  workbook,
+  sheetName,
+  headerRow,
+  onSheetChange,
+  onHeaderRowChange
+}) => {
+  const [preview, setPreview] = useState<string[][]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    getSheetPreview(workbook, sheetName, PREVIEW_ROW_COUNT)
+      .then(rows => {
+        if (!cancelled) setPreview(rows);
+      })
+      .catch(error => {
+        console.warn('Could not build sheet preview:', error);
+        if (!cancelled) setPreview([]);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [workbook, sheetName]);
+
+  const columnCount = Math.max(0, ...preview.map(row => row.length));
+
+  return (
+    <div className="space-y-4 p-4 border rounded-lg bg-gray-50">
+      <h4 className="font-medium text-gray-900">Spreadsheet Options</h4>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-1">
+          <Label className="text-sm">Sheet</Label>
+          <Select value={sheetName} onValueChange={onSheetChange}>
+            <SelectTrigger className="bg-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {workbook.SheetNames.map(name => (
+                <SelectItem key={name} value={name}>{name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-1">
+          <Label htmlFor="headerRow" className="text-sm">Header Row</Label>
+          <Input
+            id="headerRow"
+            type="number"
+            min={1}
+            value={headerRow}
+            onChange={(e) => onHeaderRowChange(Math.max(1, Number(e.target.value) || 1))}
+            className="bg-white"
+          />
+        </div>
+      </div>
+
+      <div>
+        <div className="text-xs text-gray-500 mb-1">
+          First {PREVIEW_ROW_COUNT} non-empty rows of "{sheetName}" - the highlighted row is used as column headers
+        </div>
+        {preview.length > 0 ? (
+          <div className="overflow-x-auto rounded border bg-white">
+            <Table>
+              <TableBody>
+                {preview.map((row, rowIndex) => (
+                  <TableRow
+                    key={rowIndex}
+                    className={cn(rowIndex + 1 === headerRow && 'bg-blue-50 font-medium', rowIndex + 1 < headerRow && 'text-gray-400')}
+                  >
+                    <TableCell className="w-10 text-xs text-gray-400">{rowIndex + 1}</TableCell>
+                    {Array.from({ length: columnCount }, (_, index) => (
+                      <TableCell key={index} className="max-w-[200px] truncate text-xs" title={row[index]}>
+                        {row[index]}
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        ) : (
+          <div className="text-sm text-gray-500">This sheet is empty.</div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SpreadsheetPanel;
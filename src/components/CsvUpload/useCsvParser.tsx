@@ -0,0 +1,83 @@
+import { useState, useCallback, useRef, useEffect } from 'react';
+import { CsvParseOptions, CsvParseProgress, CsvParseRequest, CsvParseResponse, CsvParseResult } from '@/types/csvParser';
+
+interface ActiveParse {
+  worker: Worker;
+  resolve: (result: CsvParseResult | null) => void;
+}
+
+export const useCsvParser = () => {
+  const [isParsing, setIsParsing] = useState(false);
+  const [progress, setProgress] = useState<CsvParseProgress | null>(null);
+  const activeParse = useRef<ActiveParse | null>(null);
+
+  const finishParse = useCallback(() => {
+    activeParse.current?.worker.terminate();
+    activeParse.current = null;
+    setIsParsing(false);
+    setProgress(null);
+  }, []);
+
+  // Resolves with null when the parse is cancelled
+  const parseFile = useCallback((file: File, options: CsvParseOptions = {}): Promise<CsvParseResult | null> => {
+    if (activeParse.current) {
+      activeParse.current.resolve(null);
+      finishParse();
+    }
+
+    return new Promise((resolve, reject) => {
+      const worker = new Worker(new URL('../../workers/csvParser.worker.ts', import.meta.url), { type: 'module' });
+      activeParse.current = { worker, resolve };
+      setIsParsing(true);
+      setProgress({ bytesRead: 0, totalBytes: file.size, rowsParsed: 0 });
+
+      worker.onmessage = (event: MessageEvent<CsvParseResponse>) => {
+        const message = event.data;
+
+        if (message.type === 'progress') {
+          setProgress({
+            bytesRead: message.bytesRead,
+            totalBytes: message.totalBytes,
+            rowsParsed: message.rowsParsed
+          });
+        } else if (message.type === 'complete') {
+          finishParse();
+          resolve({
+            data: message.data,
+            dialect: message.dialect,
+            encoding: message.encoding,
+            diagnostics: message.diagnostics,
+            sampleText: message.sampleText
+          });
+        } else {
+          finishParse();
+          reject(new Error(message.message));
+        }
+      };
+
+      worker.onerror = (event) => {
+        finishParse();
+        reject(new Error(event.message || 'CSV parser worker failed'));
+      };
+
+      const request: CsvParseRequest = { type: 'parse', file, ...options };
+      worker.postMessage(request);
+    });
+  }, [finishParse]);
+
+  const cancelParse = useCallback(() => {
+    if (!activeParse.current) return;
+    activeParse.current.resolve(null);
+    finishParse();
+  }, [finishParse]);
+
+  // Never leave a worker running after the upload card unmounts
+  useEffect(() => () => activeParse.current?.worker.terminate(), []);
+
+  return {
+    isParsing,
+    progress,
+    parseFile,
+    cancelParse
+  };
+};
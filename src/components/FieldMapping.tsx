@@ -1,5 +1,5 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import {
   Card,
   CardContent,
@@ -9,7 +9,6 @@ import {
 } from "@/components/ui/card"
 import { Label } from "@/components/ui/label"
 import { Input } from "@/components/ui/input"
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import {
   Table,
   TableBody,
@@ -20,8 +19,14 @@ import {
   TableRow,
 } from "@/components/ui/table"
 import { Button } from "@/components/ui/button"
-import { ContentstackConfig, CsvData, FieldMapping as FieldMappingType, FlattenedField, ContentstackField } from '@/types/contentstack';
+import { ContentstackConfig, CsvColumn, CsvData, FieldMapping as FieldMappingType, FlattenedField, ContentstackField } from '@/types/contentstack';
 import { flattenContentstackFields, getFieldType } from '@/utils/fieldUtils';
+import { getColumns, getMappingColumnId } from '@/utils/csvDataUtils';
+import { profileColumns } from '@/utils/columnProfiler';
+import { getMissingRequiredFields, getRequiredFieldCoverage } from '@/utils/requiredFields';
+import { countRowsOverLimit } from '@/utils/multiValue';
+import { getInstanceIndex } from '@/utils/entryPayload';
+import { createImportRun, getMappingRawValue, isColumnMapping, isSyntheticMapping, isTemplateMapping } from '@/utils/mappingValues';
 import { toast } from "@/components/ui/use-toast"
 import { useToast } from "@/hooks/use-toast"
 import {
@@ -41,16 +46,51 @@ import {
   AccordionTrigger,
 } from "@/components/ui/accordion"
 import { cn } from "@/lib/utils"
+import ColumnProfilePanel from './FieldMapping/ColumnProfilePanel';
+import MappingValueOptions from './FieldMapping/MappingValueOptions';
+import MappingTemplatesPanel from './FieldMapping/MappingTemplatesPanel';
+import MatchConfidence from './FieldMapping/MatchConfidence';
+import FieldPicker from './FieldMapping/FieldPicker';
+import CompositeMappingsPanel from './FieldMapping/CompositeMappingsPanel';
+import FixedValuesPanel from './FieldMapping/FixedValuesPanel';
+import RequiredFieldsPanel from './FieldMapping/RequiredFieldsPanel';
+import { Plus, Trash2 } from 'lucide-react';
+import { AUTO_APPLY_CONFIDENCE, HIGH_CONFIDENCE, suggestFieldMatches } from '@/utils/fieldMatcher';
 
 interface FieldMappingProps {
-  csvHeaders: string[];
+  csvData: CsvData;
   config: ContentstackConfig;
   onMappingComplete: (mapping: FieldMappingType[]) => void;
   initialMapping?: FieldMappingType[];
 }
 
+const PREVIEW_ROW_COUNT = 5;
+
+// The target part of a mapping; a 'skip' target when no field is given
+const getFieldSettings = (field?: FlattenedField) => ({
+  contentstackField: field ? field.fieldPath : 'skip',
+  fieldType: field ? getFieldType(field.data_type) : 'text' as const,
+  isRequired: field ? field.mandatory : false,
+  referenceContentType: field?.reference_to?.[0],
+  referenceContentTypes: field?.reference_to,
+  blockType: field?.blockType,
+  parentField: field?.parentField,
+  selectOptions: field?.selectOptions,
+  multiple: field?.multiple,
+  maxInstance: field?.maxInstance,
+  groupPath: field?.groupPath
+});
+
+const toFieldMapping = (column: CsvColumn, field?: FlattenedField, confidence?: number): FieldMappingType => ({
+  csvColumn: column.header,
+  columnId: column.id,
+  ...getFieldSettings(field),
+  instanceIndex: field ? getInstanceIndex(column.header, field) : undefined,
+  confidence
+});
+
 const FieldMapping: React.FC<FieldMappingProps> = ({ 
-  csvHeaders, 
+  csvData, 
   config, 
   onMappingComplete, 
   initialMapping = [] 
@@ -60,6 +100,21 @@ const FieldMapping: React.FC<FieldMappingProps> = ({
   const [isLoading, setIsLoading] = useState(true);
   const [schemaError, setSchemaError] = useState<string | null>(null);
 
+  const columns = useMemo(() => getColumns(csvData), [csvData]);
+  const profiles = useMemo(() => profileColumns(csvData), [csvData]);
+
+  // Renaming a column changes its header but not its id, so only a different set of ids re-runs auto-mapping
+  const columnKey = columns.map(column => column.id).join('\n');
+  const columnsRef = useRef(columns);
+  columnsRef.current = columns;
+
+  const suggestions = useMemo(
+    () => suggestFieldMatches(columns, flattenedFields, profiles),
+    [columns, flattenedFields, profiles]
+  );
+  const suggestionsRef = useRef(suggestions);
+  suggestionsRef.current = suggestions;
+
   // Initialize flattened fields
   useEffect(() => {
     const initializeFields = async () => {
@@ -106,9 +161,10 @@ const FieldMapping: React.FC<FieldMappingProps> = ({
     initializeFields();
   }, [config]);
 
-  // Initialize field mapping based on CSV headers and flattened fields
+  // Initialize field mapping based on CSV columns and flattened fields
   useEffect(() => {
-    if (flattenedFields.length === 0 || csvHeaders.length === 0) return;
+    const currentColumns = columnsRef.current;
+    if (flattenedFields.length === 0 || currentColumns.length === 0) return;
     
     if (initialMapping.length > 0) {
       console.log('Using initial mapping:', initialMapping);
@@ -117,103 +173,151 @@ const FieldMapping: React.FC<FieldMappingProps> = ({
     }
 
     console.log('Auto-mapping CSV headers to fields...');
-    const mapping: FieldMappingType[] = csvHeaders.map(header => {
-      console.log(`Trying to map CSV header: "${header}"`);
-      
-      // Try to auto-match based on field UID or display name
-      const matchedField = flattenedFields.find(field => {
-        const headerLower = header.toLowerCase();
-        const uidLower = field.uid.toLowerCase();
-        const displayNameLower = field.display_name.toLowerCase();
-        const pathLower = field.fieldPath.toLowerCase();
-        
-        // Exact matches
-        if (uidLower === headerLower || displayNameLower === headerLower || pathLower === headerLower) {
-          return true;
-        }
-        
-        // Partial matches for common fields
-        if (headerLower.includes('title') && (uidLower.includes('title') || displayNameLower.includes('title'))) {
-          return true;
-        }
-        
-        if (headerLower.includes('url') && (uidLower.includes('url') || displayNameLower.includes('url'))) {
-          return true;
-        }
-        
-        if (headerLower.includes('body') && (uidLower.includes('body') || displayNameLower.includes('body'))) {
-          return true;
-        }
-        
-        return false;
-      });
+    const suggestions = suggestionsRef.current;
+    const mapping: FieldMappingType[] = currentColumns.map(column => {
+      const { matchingField, confidence } = suggestions[column.id] || {};
 
-      if (matchedField) {
-        console.log(`✓ Matched "${header}" to field: ${matchedField.uid} (${matchedField.display_name})`);
-        return {
-          csvColumn: header,
-          contentstackField: matchedField.fieldPath,
-          fieldType: getFieldType(matchedField.data_type),
-          isRequired: matchedField.mandatory,
-          referenceContentType: matchedField.reference_to?.[0],
-          blockType: matchedField.blockType,
-          parentField: matchedField.parentField,
-          selectOptions: matchedField?.selectOptions
-        };
+      // Weaker matches are only offered as suggestions in the table
+      if (matchingField && confidence >= AUTO_APPLY_CONFIDENCE) {
+        console.log(`✓ Matched "${column.header}" to field: ${matchingField.uid} (${confidence}%)`);
+        return toFieldMapping(column, matchingField, confidence);
       }
 
-      console.log(`✗ No match found for "${header}"`);
-      // Default to skip if no match found
-      return {
-        csvColumn: header,
-        contentstackField: 'skip',
-        fieldType: 'text' as const,
-        isRequired: false
-      };
+      console.log(`✗ No confident match for "${column.header}"`);
+      return toFieldMapping(column);
     });
 
     console.log('Final mapping:', mapping);
     setFieldMapping(mapping);
-  }, [csvHeaders, flattenedFields, initialMapping]);
+  }, [columnKey, flattenedFields, initialMapping]);
 
-  const handleFieldChange = (index: number, contentstackField: string) => {
-    console.log(`Changing field mapping for index ${index} to: ${contentstackField}`);
-    
+  // Every column mapping of a column with its position in the mapping list; the first one is the column's main target
+  const getColumnEntries = (columnId: string) => fieldMapping
+    .map((mapping, index) => ({ mapping, index }))
+    .filter(({ mapping }) => isColumnMapping(mapping) && getMappingColumnId(mapping) === columnId);
+
+  const findMapping = (columnId: string) => getColumnEntries(columnId)[0]?.mapping;
+
+  const templateEntries = fieldMapping
+    .map((mapping, index) => ({ mapping, index }))
+    .filter(({ mapping }) => isTemplateMapping(mapping));
+
+  const syntheticEntries = fieldMapping
+    .map((mapping, index) => ({ mapping, index }))
+    .filter(({ mapping }) => isSyntheticMapping(mapping));
+
+  const setColumnMapping = (column: CsvColumn, field?: FlattenedField, confidence?: number) => {
     setFieldMapping(prevMapping => {
-      const newMapping = [...prevMapping];
-      const matchedField = flattenedFields.find(field => field.fieldPath === contentstackField);
-
-      newMapping[index] = {
-        ...newMapping[index],
-        csvColumn: csvHeaders[index],
-        contentstackField: contentstackField,
-        fieldType: matchedField ? getFieldType(matchedField.data_type) : 'text',
-        isRequired: matchedField ? matchedField.mandatory : false,
-        referenceContentType: matchedField?.reference_to?.[0],
-        blockType: matchedField?.blockType,
-        parentField: matchedField?.parentField,
-        selectOptions: matchedField?.selectOptions
-      };
-      return newMapping;
+      const existingIndex = prevMapping.findIndex(mapping => isColumnMapping(mapping) && getMappingColumnId(mapping) === column.id);
+      const next = toFieldMapping(column, field, confidence);
+      if (existingIndex === -1) return [...prevMapping, next];
+
+      // Keep settings that belong to the column rather than the field, like the value policy
+      return prevMapping.map((mapping, index) => index === existingIndex ? { ...mapping, ...next } : mapping);
     });
   };
 
-  const handleSubmit = () => {
-    const hasUnmappedRequiredFields = fieldMapping.some(mapping => {
-      const field = flattenedFields.find(f => f.fieldPath === mapping.contentstackField);
-      return field?.mandatory === true && mapping.contentstackField === 'skip';
+  const updateMappingAt = (index: number, update: Partial<FieldMappingType>) => {
+    setFieldMapping(prevMapping => prevMapping.map((mapping, i) => i === index ? { ...mapping, ...update } : mapping));
+  };
+
+  const handleFieldChange = (column: CsvColumn, contentstackField: string) => {
+    console.log(`Changing field mapping for column ${column.id} to: ${contentstackField}`);
+    setColumnMapping(column, flattenedFields.find(field => field.fieldPath === contentstackField));
+  };
+
+  const handleTargetChange = (index: number, contentstackField: string) => {
+    const field = flattenedFields.find(f => f.fieldPath === contentstackField);
+    updateMappingAt(index, { ...getFieldSettings(field), confidence: undefined });
+  };
+
+  // Writes the same column to one more field
+  const handleAddColumnTarget = (column: CsvColumn) => {
+    setFieldMapping(prevMapping => [...prevMapping, toFieldMapping(column)]);
+  };
+
+  const handleAddFixedValue = () => {
+    setFieldMapping(prevMapping => [...prevMapping, {
+      csvColumn: '""',
+      source: 'constant',
+      constantValue: '',
+      ...getFieldSettings()
+    }]);
+  };
+
+  const handleAddTemplateMapping = () => {
+    setFieldMapping(prevMapping => [...prevMapping, {
+      csvColumn: '',
+      source: 'template',
+      template: '',
+      ...getFieldSettings()
+    }]);
+  };
+
+  const handleRemoveMapping = (index: number) => {
+    setFieldMapping(prevMapping => prevMapping.filter((_, i) => i !== index));
+  };
+
+  // Block fields stay available since each block instance can fill them again
+  const mappedFields = new Set(fieldMapping.filter(mapping => !mapping.blockType && !mapping.groupPath).map(mapping => mapping.contentstackField));
+
+  // Suggestions for columns still unmapped, leaving out fields another column already fills
+  const openSuggestions = columns.flatMap(column => {
+    const suggestion = suggestions[column.id];
+    const mapping = findMapping(column.id);
+    const isUnmapped = !mapping || mapping.contentstackField === 'skip';
+    return isUnmapped && suggestion && !mappedFields.has(suggestion.matchingField.fieldPath)
+      ? [{ column, suggestion }]
+      : [];
+  });
+  const highConfidenceSuggestions = openSuggestions.filter(({ suggestion }) => suggestion.confidence >= HIGH_CONFIDENCE);
+
+  const handleAcceptHighConfidence = () => {
+    highConfidenceSuggestions.forEach(({ column, suggestion }) =>
+      setColumnMapping(column, suggestion.matchingField, suggestion.confidence)
+    );
+    toast({
+      title: "Suggestions Accepted",
+      description: `Mapped ${highConfidenceSuggestions.length} columns with at least ${HIGH_CONFIDENCE}% confidence`
     });
-  
-    if (hasUnmappedRequiredFields) {
+  };
+
+  // Raw values of the first rows, shown in the transform preview
+  const previewRows = csvData.rows.slice(0, PREVIEW_ROW_COUNT);
+  const previewRun = useMemo(() => createImportRun(), []);
+  const getSamples = (mapping: FieldMappingType) =>
+    previewRows.map((row, rowIndex) => getMappingRawValue(mapping, row, columns, rowIndex, previewRun) ?? '');
+
+  // Counting scans every row, so each mapping is counted once and recounted only when it or the data changes
+  const overLimitCache = useMemo(() => ({ data: csvData, counts: new WeakMap<FieldMappingType, number>() }), [csvData]);
+  const overLimitCounts = useMemo(() => fieldMapping.map(mapping => {
+    const { data, counts } = overLimitCache;
+    if (!counts.has(mapping)) {
+      counts.set(mapping, countRowsOverLimit(mapping, data, columns, previewRun));
+    }
+    return counts.get(mapping)!;
+  }), [fieldMapping, overLimitCache, columns, previewRun]);
+
+  // Constant and computed values count as covering a required field, just like columns
+  const requiredCoverage = getRequiredFieldCoverage(flattenedFields, fieldMapping);
+  const missingRequiredFields = getMissingRequiredFields(requiredCoverage);
+
+  const handleSubmit = () => {
+    if (missingRequiredFields.length > 0) {
       toast({
         title: "Error",
-        description: "Please map all required fields before submitting.",
+        description: `Please map all required fields before submitting: ${missingRequiredFields.map(field => field.display_name).join(', ')}`,
         variant: "destructive",
       });
       return;
     }
   
-    onMappingComplete(fieldMapping);
+    // Keep the readable column name in step with any renames made after mapping
+    onMappingComplete(fieldMapping.map(mapping => {
+      if (!isColumnMapping(mapping)) return mapping;
+      const column = columns.find(c => c.id === getMappingColumnId(mapping));
+      return column ? { ...mapping, csvColumn: column.header, columnId: column.id } : mapping;
+    }));
   };
 
   if (isLoading) {
@@ -231,40 +335,92 @@ const FieldMapping: React.FC<FieldMappingProps> = ({
         <CardDescription>Map your CSV columns to Contentstack fields.</CardDescription>
       </CardHeader>
       <CardContent>
+        <MappingTemplatesPanel
+          contentTypeUid={config.contentType}
+          columns={columns}
+          mapping={fieldMapping}
+          onApply={setFieldMapping}
+        />
+        {highConfidenceSuggestions.length > 0 && (
+          <div className="mb-4 flex items-center justify-between p-3 bg-blue-50 border border-blue-200 rounded text-sm text-blue-800">
+            <span>
+              {highConfidenceSuggestions.length} unmapped column{highConfidenceSuggestions.length === 1 ? ' has a suggestion' : 's have suggestions'} with at least {HIGH_CONFIDENCE}% confidence
+            </span>
+            <Button size="sm" variant="outline" onClick={handleAcceptHighConfidence}>
+              Accept All Suggestions
+            </Button>
+          </div>
+        )}
+        <RequiredFieldsPanel coverage={requiredCoverage} />
         <Table>
           <TableHeader>
             <TableRow>
               <TableHead className="w-[200px]">CSV Header</TableHead>
               <TableHead>Contentstack Field</TableHead>
               <TableHead className="w-[150px]">Field Info</TableHead>
+              <TableHead className="w-[240px]">Column Profile</TableHead>
             </TableRow>
           </TableHeader>
           <TableBody>
-            {csvHeaders.map((header, index) => {
-              const mapping = fieldMapping[index];
+            {columns.map(column => {
+              const [primary, ...extraTargets] = getColumnEntries(column.id);
+              const mapping = primary?.mapping;
               const field = flattenedFields.find(f => f.fieldPath === mapping?.contentstackField);
+              const isMapped = mapping && mapping.contentstackField !== 'skip';
+              const openSuggestion = openSuggestions.find(open => open.column.id === column.id)?.suggestion;
               
               return (
-                <TableRow key={index}>
-                  <TableCell className="font-medium">{header}</TableCell>
+                <TableRow key={column.id}>
+                  <TableCell className="font-medium">{column.header}</TableCell>
                   <TableCell>
-                    <Select 
-                      value={mapping?.contentstackField || 'skip'} 
-                      onValueChange={(value) => handleFieldChange(index, value)}
-                    >
-                      <SelectTrigger className="w-[350px]">
-                        <SelectValue placeholder="Select a field" />
-                      </SelectTrigger>
-                      <SelectContent>
-                        <SelectItem value="skip">Skip this column</SelectItem>
-                        {flattenedFields.map(field => (
-                          <SelectItem key={field.fieldPath} value={field.fieldPath}>
-                            {field.display_name} ({field.fieldPath})
-                            {field.data_type === 'select' && ' - Select Field'}
-                          </SelectItem>
-                        ))}
-                      </SelectContent>
-                    </Select>
+                    <FieldPicker
+                      fields={flattenedFields}
+                      value={mapping?.contentstackField || 'skip'}
+                      mappedFields={mappedFields}
+                      onChange={(value) => handleFieldChange(column, value)}
+                    />
+                    <MatchConfidence
+                      mapping={mapping}
+                      suggestion={isMapped ? suggestions[column.id] : openSuggestion}
+                      onAccept={() => setColumnMapping(column, openSuggestion.matchingField, openSuggestion.confidence)}
+                    />
+                    {isMapped && (
+                      <MappingValueOptions
+                        mapping={mapping}
+                        columns={columns}
+                        samples={getSamples(mapping)}
+                        overLimitRows={overLimitCounts[primary.index]}
+                        onChange={(update) => updateMappingAt(primary.index, update)}
+                      />
+                    )}
+                    {extraTargets.map(({ mapping: extra, index }) => (
+                      <div key={index} className="mt-2 flex items-center gap-1">
+                        <FieldPicker
+                          fields={flattenedFields}
+                          value={extra.contentstackField}
+                          mappedFields={mappedFields}
+                          onChange={(value) => handleTargetChange(index, value)}
+                        />
+                        {extra.contentstackField !== 'skip' && (
+                          <MappingValueOptions
+                            mapping={extra}
+                            columns={columns}
+                            samples={getSamples(extra)}
+                            overLimitRows={overLimitCounts[index]}
+                            onChange={(update) => updateMappingAt(index, update)}
+                          />
+                        )}
+                        <Button variant="ghost" size="sm" title="Remove" className="text-gray-400 hover:text-red-600" onClick={() => handleRemoveMapping(index)}>
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    ))}
+                    {isMapped && (
+                      <Button variant="ghost" size="sm" className="h-7 px-2 text-xs text-gray-500 flex items-center gap-1" onClick={() => handleAddColumnTarget(column)}>
+                        <Plus className="w-3 h-3" />
+                        Also map to another field
+                      </Button>
+                    )}
                   </TableCell>
                   <TableCell>
                     <div className="text-xs space-y-1">
@@ -290,12 +446,43 @@ const FieldMapping: React.FC<FieldMappingProps> = ({
                       )}
                     </div>
                   </TableCell>
+                  <TableCell>
+                    {profiles[column.id] && <ColumnProfilePanel profile={profiles[column.id]} field={field} />}
+                  </TableCell>
                 </TableRow>
               );
             })}
           </TableBody>
         </Table>
-        <Button className="mt-4" onClick={handleSubmit}>Complete Mapping</Button>
+        <CompositeMappingsPanel
+          entries={templateEntries}
+          columns={columns}
+          fields={flattenedFields}
+          mappedFields={mappedFields}
+          sampleRow={csvData.rows[0]}
+          getSamples={getSamples}
+          onOptionsChange={updateMappingAt}
+          onTemplateChange={(index, template) => updateMappingAt(index, { template, csvColumn: template })}
+          onFieldChange={handleTargetChange}
+          onAdd={handleAddTemplateMapping}
+          onRemove={handleRemoveMapping}
+        />
+        <FixedValuesPanel
+          entries={syntheticEntries}
+          fields={flattenedFields}
+          mappedFields={mappedFields}
+          onFieldChange={handleTargetChange}
+          onChange={updateMappingAt}
+          onAdd={handleAddFixedValue}
+          onRemove={handleRemoveMapping}
+        />
+        <Button className="mt-4" onClick={handleSubmit} disabled={missingRequiredFields.length > 0}>Complete Mapping</Button>
+        {missingRequiredFields.length > 0 && (
+          <p className="mt-2 text-sm text-red-700">
+            Map a column or set a value for every required field to continue. Still missing:{' '}
+            {missingRequiredFields.map(field => field.display_name).join(', ')}
+          </p>
+        )}
       </CardContent>
     </Card>
   );
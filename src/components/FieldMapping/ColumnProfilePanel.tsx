@@ -0,0 +1,44 @@
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { FlattenedField } from '@/types/contentstack';
+import { ColumnProfile, getTypeConflict } from '@/utils/columnProfiler';
+import { AlertTriangle } from 'lucide-react';
+
+const MAX_VALUE_LENGTH = 30;
+
+interface ColumnProfilePanelProps {
+  profile: ColumnProfile;
+  field?: FlattenedField;
+}
+
+const truncate = (value: string) =>
+  value.length > MAX_VALUE_LENGTH ? `${value.slice(0, MAX_VALUE_LENGTH)}…` : value;
+
+const ColumnProfilePanel: React.FC<ColumnProfilePanelProps> = ({ profile, field }) => {
+  const conflict = field ? getTypeConflict(profile, field.data_type) : null;
+
+  return (
+    <div className="text-xs space-y-1">
+      <div className="flex items-center gap-2">
+        <Badge variant="secondary" className="text-[10px]">{profile.inferredType}</Badge>
+        <span className="text-gray-600">{Math.round(profile.fillRate * 100)}% filled</span>
+      </div>
+      <div className="text-gray-500">
+        {profile.distinctCount} distinct · length {profile.minLength}–{profile.maxLength}
+      </div>
+      {profile.topValues.length > 0 && (
+        <div className="text-gray-500">
+          Top: {profile.topValues.slice(0, 3).map(({ value, count }) => `${truncate(value)} (${count})`).join(', ')}
+        </div>
+      )}
+      {conflict && (
+        <div className="flex items-start gap-1 text-amber-700">
+          <AlertTriangle className="w-3 h-3 mt-0.5 shrink-0" />
+          <span>{conflict}</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ColumnProfilePanel;
@@ -0,0 +1,93 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { CsvColumn, FieldMapping, FlattenedField } from '@/types/contentstack';
+import { findMissingPlaceholders, renderTemplate } from '@/utils/mappingValues';
+import { applyTransforms } from '@/utils/transformPipeline';
+import FieldPicker from './FieldPicker';
+import MappingValueOptions from './MappingValueOptions';
+import { AlertTriangle, Plus, Trash2 } from 'lucide-react';
+
+interface CompositeMappingsPanelProps {
+  // Template mappings with their position in the full mapping list
+  entries: { mapping: FieldMapping; index: number }[];
+  columns: CsvColumn[];
+  fields: FlattenedField[];
+  mappedFields: Set<string>;
+  sampleRow?: Record<string, string>;
+  getSamples: (mapping: FieldMapping) => string[];
+  onOptionsChange: (index: number, update: Partial<FieldMapping>) => void;
+  onTemplateChange: (index: number, template: string) => void;
+  onFieldChange: (index: number, fieldPath: string) => void;
+  onAdd: () => void;
+  onRemove: (index: number) => void;
+}
+
+const CompositeMappingsPanel: React.FC<CompositeMappingsPanelProps> = ({
+  entries,
+  columns,
+  fields,
+  mappedFields,
+  sampleRow,
+  getSamples,
+  onOptionsChange,
+  onTemplateChange,
+  onFieldChange,
+  onAdd,
+  onRemove
+}) => (
+  <div className="mt-6 p-4 border rounded-lg space-y-3">
+    <div className="flex items-center justify-between">
+      <div>
+        <h4 className="font-medium text-gray-900">Combined Values</h4>
+        <p className="text-xs text-gray-500">
+          Build a field from several columns with a template, e.g. <code>{'{first_name} {last_name}'}</code>
+        </p>
+      </div>
+      <Button variant="outline" size="sm" onClick={onAdd} className="flex items-center gap-2">
+        <Plus className="w-4 h-4" />
+        Add Combined Value
+      </Button>
+    </div>
+
+    {entries.map(({ mapping, index }) => {
+      const template = mapping.template ?? '';
+      const missing = findMissingPlaceholders(template, columns);
+      const preview = sampleRow ? applyTransforms(renderTemplate(template, sampleRow, columns), mapping.transforms) : '';
+
+      return (
+        <div key={index} className="p-3 bg-gray-50 border rounded space-y-2">
+          <div className="flex items-center gap-2">
+            <Input
+              value={template}
+              placeholder="{first_name} {last_name}"
+              onChange={(e) => onTemplateChange(index, e.target.value)}
+              className="bg-white font-mono text-sm"
+            />
+            <span className="text-gray-400">→</span>
+            <FieldPicker
+              fields={fields}
+              value={mapping.contentstackField}
+              mappedFields={mappedFields}
+              onChange={(fieldPath) => onFieldChange(index, fieldPath)}
+            />
+            <MappingValueOptions mapping={mapping} columns={columns} samples={getSamples(mapping)} onChange={(update) => onOptionsChange(index, update)} />
+            <Button variant="ghost" size="sm" title="Remove" className="text-gray-400 hover:text-red-600" onClick={() => onRemove(index)}>
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </div>
+          {missing.length > 0 ? (
+            <div className="flex items-center gap-1 text-xs text-amber-700">
+              <AlertTriangle className="w-3 h-3" />
+              No column named {missing.map(name => `"${name}"`).join(', ')}
+            </div>
+          ) : preview && (
+            <div className="text-xs text-gray-500">First row: <span className="text-gray-800">{preview}</span></div>
+          )}
+        </div>
+      );
+    })}
+  </div>
+);
+
+export default CompositeMappingsPanel;
@@ -0,0 +1,121 @@
+import React, { useMemo, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from '@/components/ui/command';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { FlattenedField } from '@/types/contentstack';
+import { Check, ChevronsUpDown } from 'lucide-react';
+
+const TOP_LEVEL_GROUP = 'Fields';
+
+interface FieldPickerProps {
+  fields: FlattenedField[];
+  value: string;
+  // Field paths mapped by other columns; they are hidden from the list
+  mappedFields: Set<string>;
+  onChange: (fieldPath: string) => void;
+}
+
+interface FieldGroup {
+  label: string;
+  fields: { field: FlattenedField; label: string }[];
+}
+
+/**
+ * Groups fields under the block, group or global field they belong to. Block
+ * and group fields carry their parents in the display name ("Page > Hero > CTA
+ * Title"), global field children are found through the path of their parent.
+ */
+const groupFields = (fields: FlattenedField[]): FieldGroup[] => {
+  const byPath = new Map(fields.map(field => [field.fieldPath, field]));
+  const groups = new Map<string, FieldGroup>();
+
+  fields.forEach(field => {
+    let groupLabel = TOP_LEVEL_GROUP;
+    let label = field.display_name;
+
+    if (field.display_name.includes(' > ')) {
+      const parts = field.display_name.split(' > ');
+      label = parts.pop();
+      groupLabel = parts.join(' > ');
+    } else if (field.parentField) {
+      const parentPath = field.fieldPath.slice(0, field.fieldPath.lastIndexOf('.'));
+      groupLabel = byPath.get(parentPath)?.display_name ?? field.parentField;
+    }
+
+    if (!groups.has(groupLabel)) groups.set(groupLabel, { label: groupLabel, fields: [] });
+    groups.get(groupLabel).fields.push({ field, label });
+  });
+
+  return [...groups.values()];
+};
+
+const FieldPicker: React.FC<FieldPickerProps> = ({ fields, value, mappedFields, onChange }) => {
+  const [open, setOpen] = useState(false);
+  const groups = useMemo(() => groupFields(fields), [fields]);
+  const selected = fields.find(field => field.fieldPath === value);
+
+  const handleSelect = (fieldPath: string) => {
+    onChange(fieldPath);
+    setOpen(false);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" role="combobox" aria-expanded={open} className="w-[350px] justify-between font-normal">
+          <span className="truncate">
+            {selected ? `${selected.display_name} (${selected.fieldPath})` : 'Skip this column'}
+          </span>
+          <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[440px] p-0" align="start">
+        <Command>
+          <CommandInput placeholder="Search fields by name, path or type..." />
+          <CommandList className="max-h-[360px]">
+            <CommandEmpty>No matching field.</CommandEmpty>
+            <CommandGroup>
+              <CommandItem value="skip" keywords={['skip', 'none']} onSelect={() => handleSelect('skip')}>
+                <Check className={`mr-2 h-4 w-4 ${value === 'skip' || !selected ? 'opacity-100' : 'opacity-0'}`} />
+                Skip this column
+              </CommandItem>
+            </CommandGroup>
+            {groups.map(group => {
+              const available = group.fields.filter(({ field }) => field.fieldPath === value || !mappedFields.has(field.fieldPath));
+              if (available.length === 0) return null;
+
+              return (
+                <CommandGroup key={group.label} heading={group.label}>
+                  {available.map(({ field, label }) => (
+                    <CommandItem
+                      key={field.fieldPath}
+                      value={field.fieldPath}
+                      keywords={[label, field.display_name, field.data_type]}
+                      onSelect={() => handleSelect(field.fieldPath)}
+                    >
+                      <Check className={`mr-2 h-4 w-4 shrink-0 ${field.fieldPath === value ? 'opacity-100' : 'opacity-0'}`} />
+                      <div className="flex-1 min-w-0">
+                        <div className="truncate">{label}</div>
+                        <div className="text-xs text-gray-500 truncate">{field.fieldPath}</div>
+                      </div>
+                      <div className="flex gap-1 ml-2 shrink-0">
+                        <Badge variant="secondary" className="text-[10px]">{field.data_type}</Badge>
+                        {field.multiple && <Badge variant="outline" className="text-[10px]">multiple</Badge>}
+                        {field.mandatory && (
+                          <Badge className="text-[10px] bg-red-100 text-red-700 hover:bg-red-100">Required</Badge>
+                        )}
+                      </div>
+                    </CommandItem>
+                  ))}
+                </CommandGroup>
+              );
+            })}
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default FieldPicker;
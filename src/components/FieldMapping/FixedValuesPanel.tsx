@@ -0,0 +1,100 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ComputedValueKind, FieldMapping, FlattenedField } from '@/types/contentstack';
+import { COMPUTED_VALUES } from '@/utils/mappingValues';
+import FieldPicker from './FieldPicker';
+import { Plus, Trash2 } from 'lucide-react';
+
+const CONSTANT = 'constant';
+
+interface FixedValuesPanelProps {
+  // Constant and computed mappings with their position in the full mapping list
+  entries: { mapping: FieldMapping; index: number }[];
+  fields: FlattenedField[];
+  mappedFields: Set<string>;
+  onFieldChange: (index: number, fieldPath: string) => void;
+  onChange: (index: number, update: Partial<FieldMapping>) => void;
+  onAdd: () => void;
+  onRemove: (index: number) => void;
+}
+
+const FixedValuesPanel: React.FC<FixedValuesPanelProps> = ({
+  entries,
+  fields,
+  mappedFields,
+  onFieldChange,
+  onChange,
+  onAdd,
+  onRemove
+}) => {
+  const handleKindChange = (index: number, mapping: FieldMapping, kind: string) => {
+    if (kind === CONSTANT) {
+      onChange(index, { source: 'constant', computed: undefined, csvColumn: `"${mapping.constantValue ?? ''}"` });
+      return;
+    }
+    const computed = kind as ComputedValueKind;
+    onChange(index, {
+      source: 'computed',
+      computed,
+      csvColumn: COMPUTED_VALUES.find(option => option.value === computed)?.label ?? computed
+    });
+  };
+
+  return (
+    <div className="mt-6 p-4 border rounded-lg space-y-3">
+      <div className="flex items-center justify-between">
+        <div>
+          <h4 className="font-medium text-gray-900">Fixed & Generated Values</h4>
+          <p className="text-xs text-gray-500">
+            Fill fields that have no CSV column, with the same value for every entry or a value generated during the import
+          </p>
+        </div>
+        <Button variant="outline" size="sm" onClick={onAdd} className="flex items-center gap-2">
+          <Plus className="w-4 h-4" />
+          Add Value
+        </Button>
+      </div>
+
+      {entries.map(({ mapping, index }) => (
+        <div key={index} className="flex items-center gap-2 p-3 bg-gray-50 border rounded">
+          <FieldPicker
+            fields={fields}
+            value={mapping.contentstackField}
+            mappedFields={mappedFields}
+            onChange={(fieldPath) => onFieldChange(index, fieldPath)}
+          />
+          <span className="text-gray-400">=</span>
+          <Select
+            value={mapping.source === 'computed' ? mapping.computed : CONSTANT}
+            onValueChange={(kind) => handleKindChange(index, mapping, kind)}
+          >
+            <SelectTrigger className="w-[180px] bg-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={CONSTANT}>Constant value</SelectItem>
+              {COMPUTED_VALUES.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {mapping.source === 'constant' && (
+            <Input
+              value={mapping.constantValue ?? ''}
+              placeholder="Value for every entry"
+              onChange={(e) => onChange(index, { constantValue: e.target.value, csvColumn: `"${e.target.value}"` })}
+              className="bg-white"
+            />
+          )}
+          <Button variant="ghost" size="sm" title="Remove" className="ml-auto text-gray-400 hover:text-red-600" onClick={() => onRemove(index)}>
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default FixedValuesPanel;
@@ -0,0 +1,201 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { CsvColumn, FieldMapping, MappingTemplate } from '@/types/contentstack';
+import { useToast } from '@/hooks/use-toast';
+import {
+  TemplateApplyResult,
+  applyTemplate,
+  createTemplate,
+  duplicateTemplate,
+  exportTemplate,
+  loadTemplates,
+  parseTemplateFile,
+  saveTemplates
+} from '@/utils/mappingTemplates';
+import { Copy, Download, FileUp, Play, Save, Trash2 } from 'lucide-react';
+
+interface MappingTemplatesPanelProps {
+  contentTypeUid: string;
+  columns: CsvColumn[];
+  mapping: FieldMapping[];
+  onApply: (mapping: FieldMapping[]) => void;
+}
+
+const MappingTemplatesPanel: React.FC<MappingTemplatesPanelProps> = ({ contentTypeUid, columns, mapping, onApply }) => {
+  const { toast } = useToast();
+  const [templates, setTemplates] = useState<MappingTemplate[]>(loadTemplates);
+  const [templateName, setTemplateName] = useState('');
+  const [fileInputKey, setFileInputKey] = useState(Date.now());
+  const [lastApplied, setLastApplied] = useState<(TemplateApplyResult & { name: string }) | null>(null);
+
+  const contentTypeTemplates = templates.filter(template => template.contentTypeUid === contentTypeUid);
+  const otherTemplateCount = templates.length - contentTypeTemplates.length;
+
+  const updateTemplates = (next: MappingTemplate[]) => {
+    setTemplates(next);
+    saveTemplates(next);
+  };
+
+  const handleSave = () => {
+    const name = templateName.trim();
+    if (!name) return;
+
+    const template = createTemplate(name, contentTypeUid, mapping, columns);
+    const existing = contentTypeTemplates.find(t => t.name === name);
+    if (existing) {
+      // Saving under an existing name updates that template in place
+      updateTemplates(templates.map(t => t.id === existing.id
+        ? { ...template, id: existing.id, createdAt: existing.createdAt }
+        : t
+      ));
+    } else {
+      updateTemplates([...templates, template]);
+    }
+
+    setTemplateName('');
+    toast({
+      title: existing ? "Template Updated" : "Template Saved",
+      description: `"${name}" stores ${template.mappings.length} mapped columns for ${contentTypeUid}`
+    });
+  };
+
+  const handleApply = (template: MappingTemplate) => {
+    const result = applyTemplate(template, columns);
+    onApply(result.mapping);
+    setLastApplied({ ...result, name: template.name });
+  };
+
+  const handleExport = (template: MappingTemplate) => {
+    const blob = new Blob([exportTemplate(template)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `mapping-${template.contentTypeUid}-${template.name.replace(/[^a-z0-9_-]+/gi, '-')}.json`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    setFileInputKey(Date.now());
+    if (!file) return;
+
+    try {
+      const template = parseTemplateFile(await file.text());
+      updateTemplates([...templates, template]);
+      toast({
+        title: "Template Imported",
+        description: template.contentTypeUid === contentTypeUid
+          ? `"${template.name}" is ready to apply`
+          : `"${template.name}" was made for content type "${template.contentTypeUid}" and is only listed when that content type is configured`
+      });
+    } catch (error) {
+      toast({
+        title: "Invalid Template",
+        description: error instanceof Error ? error.message : "Could not read the template file",
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <div className="mb-6 p-4 border rounded-lg bg-gray-50 space-y-4">
+      <div className="flex items-center justify-between">
+        <h4 className="font-medium text-gray-900">Mapping Templates</h4>
+        <div className="relative">
+          <input
+            key={fileInputKey}
+            type="file"
+            accept=".json"
+            onChange={handleImport}
+            className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
+          />
+          <Button variant="outline" size="sm" className="flex items-center gap-2">
+            <FileUp className="w-4 h-4" />
+            Import Template
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex gap-2">
+        <Input
+          value={templateName}
+          onChange={(e) => setTemplateName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+          placeholder="Template name, e.g. Monthly product feed"
+          className="bg-white"
+        />
+        <Button onClick={handleSave} disabled={!templateName.trim()} className="flex items-center gap-2">
+          <Save className="w-4 h-4" />
+          Save Current Mapping
+        </Button>
+      </div>
+
+      {contentTypeTemplates.length > 0 ? (
+        <div className="space-y-2">
+          {contentTypeTemplates.map(template => (
+            <div key={template.id} className="flex items-center justify-between p-2 bg-white border rounded">
+              <div>
+                <div className="text-sm font-medium">{template.name}</div>
+                <div className="text-xs text-gray-500">
+                  {template.mappings.length} mapped columns · updated {new Date(template.updatedAt).toLocaleDateString()}
+                </div>
+              </div>
+              <div className="flex gap-1">
+                <Button variant="outline" size="sm" onClick={() => handleApply(template)} className="flex items-center gap-1">
+                  <Play className="w-3 h-3" />
+                  Apply
+                </Button>
+                <Button variant="ghost" size="sm" title="Duplicate" onClick={() => updateTemplates([...templates, duplicateTemplate(template, templates)])}>
+                  <Copy className="w-3 h-3" />
+                </Button>
+                <Button variant="ghost" size="sm" title="Export as JSON" onClick={() => handleExport(template)}>
+                  <Download className="w-3 h-3" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  title="Delete"
+                  className="text-gray-400 hover:text-red-600"
+                  onClick={() => updateTemplates(templates.filter(t => t.id !== template.id))}
+                >
+                  <Trash2 className="w-3 h-3" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="text-sm text-gray-500">
+          No templates saved for {contentTypeUid} yet.
+          {otherTemplateCount > 0 && ` ${otherTemplateCount} template${otherTemplateCount === 1 ? ' belongs' : 's belong'} to other content types.`}
+        </div>
+      )}
+
+      {lastApplied && (lastApplied.unmatchedColumns.length > 0 || lastApplied.missingColumns.length > 0) && (
+        <div className="p-3 bg-amber-50 border border-amber-200 rounded text-sm text-amber-800 space-y-2">
+          <div className="font-medium">"{lastApplied.name}" did not fully match this file</div>
+          {lastApplied.unmatchedColumns.length > 0 && (
+            <div>
+              Columns not in the template (left unmapped):{' '}
+              {lastApplied.unmatchedColumns.map((header, index) => <Badge key={index} variant="secondary" className="mr-1">{header}</Badge>)}
+            </div>
+          )}
+          {lastApplied.missingColumns.length > 0 && (
+            <div>
+              Template columns missing from this file (not applied):{' '}
+              {lastApplied.missingColumns.map((header, index) => <Badge key={index} variant="secondary" className="mr-1">{header}</Badge>)}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MappingTemplatesPanel;
@@ -0,0 +1,134 @@
+import React from 'react';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { CsvColumn, FieldMapping } from '@/types/contentstack';
+import { getValuePolicy } from '@/utils/valuePolicy';
+import { DEFAULT_SPLIT_DELIMITER } from '@/utils/multiValue';
+import { DEFAULT_REFERENCE_MATCH_FIELD, getReferenceContentTypes } from '@/utils/referenceResolver';
+import ValuePolicyEditor from './ValuePolicyEditor';
+import TransformPipelineEditor from './TransformPipelineEditor';
+
+const NO_COLUMN = 'none';
+
+interface MappingValueOptionsProps {
+  mapping: FieldMapping;
+  // Columns that can provide the title and alt text of uploaded assets
+  columns: CsvColumn[];
+  // Raw values from the first rows, for the transform preview
+  samples: string[];
+  // Rows with more values than the field allows, for multiple fields
+  overLimitRows?: number;
+  onChange: (update: Partial<FieldMapping>) => void;
+}
+
+interface AssetColumnSelectProps {
+  label: string;
+  columns: CsvColumn[];
+  value?: string;
+  onChange: (columnId?: string) => void;
+}
+
+const AssetColumnSelect: React.FC<AssetColumnSelectProps> = ({ label, columns, value, onChange }) => (
+  <label className="flex items-center gap-1 text-xs text-gray-500">
+    {label}
+    <Select value={value ?? NO_COLUMN} onValueChange={(columnId) => onChange(columnId === NO_COLUMN ? undefined : columnId)}>
+      <SelectTrigger className="h-7 w-[130px] px-2 text-xs">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={NO_COLUMN}>None</SelectItem>
+        {columns.map(column => (
+          <SelectItem key={column.id} value={column.id}>{column.header}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  </label>
+);
+
+const MappingValueOptions: React.FC<MappingValueOptionsProps> = ({ mapping, columns, samples, overLimitRows = 0, onChange }) => (
+  <div className="space-y-1">
+    <div className="flex items-center gap-1">
+      <ValuePolicyEditor policy={getValuePolicy(mapping)} onChange={(valuePolicy) => onChange({ valuePolicy })} />
+      <TransformPipelineEditor steps={mapping.transforms ?? []} samples={samples} onChange={(transforms) => onChange({ transforms })} />
+      {(mapping.blockType || mapping.groupPath) && (
+        <label
+          className="flex items-center gap-1 text-xs text-gray-500"
+          title={mapping.groupPath
+            ? 'Values with the same item number form one group item; leave empty to add a single item'
+            : 'Values with the same block number form one block; leave empty to use one block per block type'}
+        >
+          {mapping.groupPath ? 'Item #' : 'Block #'}
+          <Input
+            type="number"
+            min={0}
+            value={mapping.instanceIndex ?? ''}
+            placeholder="auto"
+            onChange={(e) => onChange({ instanceIndex: e.target.value === '' ? undefined : parseInt(e.target.value, 10) })}
+            className="h-7 w-16 px-2 text-xs"
+          />
+        </label>
+      )}
+      {mapping.multiple && (
+        <label className="flex items-center gap-1 text-xs text-gray-500">
+          Split on
+          <Input
+            value={mapping.splitDelimiter ?? ''}
+            placeholder={DEFAULT_SPLIT_DELIMITER}
+            onChange={(e) => onChange({ splitDelimiter: e.target.value })}
+            className="h-7 w-12 px-2 text-xs font-mono"
+          />
+        </label>
+      )}
+      {mapping.fieldType === 'reference' && (
+        <label
+          className="flex items-center gap-1 text-xs text-gray-500"
+          title={`Links the entry of ${getReferenceContentTypes(mapping).join(', ') || 'the referenced content type'} whose field has the cell value`}
+        >
+          Match on
+          <Input
+            value={mapping.referenceMatchField ?? ''}
+            placeholder={DEFAULT_REFERENCE_MATCH_FIELD}
+            onChange={(e) => onChange({ referenceMatchField: e.target.value })}
+            className="h-7 w-24 px-2 text-xs font-mono"
+          />
+        </label>
+      )}
+      {mapping.fieldType === 'reference' && (
+        <label
+          className="flex items-center gap-1 text-xs text-gray-500"
+          title="When no entry matches, create one titled with the cell value and link to it"
+        >
+          <Switch
+            checked={!!mapping.createMissingReferences}
+            onCheckedChange={(checked) => onChange({ createMissingReferences: checked })}
+          />
+          Create missing
+        </label>
+      )}
+      {mapping.fieldType === 'file' && (
+        <>
+          <AssetColumnSelect
+            label="Title from"
+            columns={columns}
+            value={mapping.assetTitleColumn}
+            onChange={(assetTitleColumn) => onChange({ assetTitleColumn })}
+          />
+          <AssetColumnSelect
+            label="Alt text from"
+            columns={columns}
+            value={mapping.assetAltColumn}
+            onChange={(assetAltColumn) => onChange({ assetAltColumn })}
+          />
+        </>
+      )}
+    </div>
+    {overLimitRows > 0 && (
+      <p className="text-xs text-amber-700">
+        {overLimitRows} row{overLimitRows === 1 ? ' has' : 's have'} more than {mapping.maxInstance} values and will fail
+      </p>
+    )}
+  </div>
+);
+
+export default MappingValueOptions;
@@ -0,0 +1,49 @@
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { FieldMapping } from '@/types/contentstack';
+import { AUTO_APPLY_CONFIDENCE, HIGH_CONFIDENCE, MatchResult } from '@/utils/fieldMatcher';
+import { Check } from 'lucide-react';
+
+interface MatchConfidenceProps {
+  mapping?: FieldMapping;
+  suggestion?: MatchResult;
+  onAccept: () => void;
+}
+
+const getConfidenceClass = (confidence: number) => {
+  if (confidence >= AUTO_APPLY_CONFIDENCE) return 'bg-green-100 text-green-800 hover:bg-green-100';
+  if (confidence >= HIGH_CONFIDENCE) return 'bg-blue-100 text-blue-800 hover:bg-blue-100';
+  return 'bg-amber-100 text-amber-800 hover:bg-amber-100';
+};
+
+const MatchConfidence: React.FC<MatchConfidenceProps> = ({ mapping, suggestion, onAccept }) => {
+  const isMapped = mapping && mapping.contentstackField !== 'skip';
+
+  // Mapped automatically: show the score the match was made with
+  if (isMapped && mapping.confidence !== undefined) {
+    const reason = suggestion?.matchingField?.fieldPath === mapping.contentstackField ? suggestion.reason : undefined;
+    return (
+      <Badge className={`text-[10px] ${getConfidenceClass(mapping.confidence)}`} title={reason}>
+        {mapping.confidence}% match
+      </Badge>
+    );
+  }
+
+  if (isMapped || !suggestion?.matchingField) return null;
+
+  return (
+    <div className="flex items-center gap-2 text-xs text-gray-600">
+      <span title={suggestion.reason}>
+        Suggested: {suggestion.matchingField.display_name} ({suggestion.matchingField.fieldPath})
+      </span>
+      <Badge className={`text-[10px] ${getConfidenceClass(suggestion.confidence)}`}>{suggestion.confidence}%</Badge>
+      <Button variant="ghost" size="sm" className="h-6 px-2 text-xs flex items-center gap-1" onClick={onAccept}>
+        <Check className="w-3 h-3" />
+        Accept
+      </Button>
+    </div>
+  );
+};
+
+export default MatchConfidence;
@@ -0,0 +1,51 @@
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { RequiredFieldCoverage } from '@/utils/requiredFields';
+import { AlertCircle, CheckCircle, Pin } from 'lucide-react';
+
+interface RequiredFieldsPanelProps {
+  coverage: RequiredFieldCoverage[];
+}
+
+const RequiredFieldsPanel: React.FC<RequiredFieldsPanelProps> = ({ coverage }) => {
+  if (coverage.length === 0) return null;
+
+  const missingCount = coverage.filter(entry => entry.status === 'missing').length;
+
+  return (
+    <div className={`mb-6 p-4 border rounded-lg space-y-3 ${missingCount > 0 ? 'bg-red-50 border-red-200' : 'bg-green-50 border-green-200'}`}>
+      <div className="flex items-center justify-between">
+        <h4 className="font-medium text-gray-900">Required Fields</h4>
+        <span className={`text-sm ${missingCount > 0 ? 'text-red-700' : 'text-green-700'}`}>
+          {coverage.length - missingCount} of {coverage.length} covered
+        </span>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+        {coverage.map(({ field, status, coveredBy }) => (
+          <div key={field.fieldPath} className="flex items-center gap-2 p-2 bg-white border rounded text-sm">
+            {status === 'missing' && <AlertCircle className="w-4 h-4 text-red-600 shrink-0" />}
+            {status === 'mapped' && <CheckCircle className="w-4 h-4 text-green-600 shrink-0" />}
+            {status === 'constant' && <Pin className="w-4 h-4 text-blue-600 shrink-0" />}
+            <div className="flex-1 min-w-0">
+              <div className="truncate font-medium">{field.display_name}</div>
+              <div className="truncate text-xs text-gray-500">{field.fieldPath}</div>
+            </div>
+            {status === 'missing' ? (
+              <Badge className="text-[10px] bg-red-100 text-red-700 hover:bg-red-100">Missing</Badge>
+            ) : (
+              <Badge
+                variant="secondary"
+                className="text-[10px] max-w-[160px] truncate"
+                title={coveredBy}
+              >
+                {status === 'constant' ? 'Value' : 'Column'}: {coveredBy}
+              </Badge>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default RequiredFieldsPanel;
@@ -0,0 +1,187 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { TextCase, TransformStep } from '@/types/contentstack';
+import {
+  TEXT_CASES,
+  TRANSFORM_STEP_TYPES,
+  applyTransforms,
+  createTransformStep,
+  formatLookupTable,
+  getTransformStepError,
+  getTransformStepLabel,
+  parseLookupTable
+} from '@/utils/transformPipeline';
+import { ArrowDown, ArrowUp, Trash2, Wand2 } from 'lucide-react';
+
+interface TransformPipelineEditorProps {
+  steps: TransformStep[];
+  // Raw values from the first rows, used for the before/after preview
+  samples: string[];
+  onChange: (steps: TransformStep[]) => void;
+}
+
+interface StepFieldsProps {
+  step: TransformStep;
+  onChange: (step: TransformStep) => void;
+}
+
+// The table is edited as text and only parsed on blur, so half-typed lines are not lost
+const LookupStepFields: React.FC<{ step: Extract<TransformStep, { type: 'lookup' }>; onChange: (step: TransformStep) => void }> = ({ step, onChange }) => {
+  const [text, setText] = useState(formatLookupTable(step.table));
+
+  return (
+    <div className="space-y-2">
+      <Textarea
+        value={text}
+        rows={3}
+        placeholder={'US=United States\nDE=Germany'}
+        onChange={(e) => setText(e.target.value)}
+        onBlur={() => onChange({ ...step, table: parseLookupTable(text) })}
+        className="font-mono text-xs"
+      />
+      <div className="flex items-center gap-2">
+        <Switch
+          id="lookup-keep-unmatched"
+          checked={step.keepUnmatched}
+          onCheckedChange={(checked) => onChange({ ...step, keepUnmatched: checked })}
+        />
+        <Label htmlFor="lookup-keep-unmatched" className="text-xs">Keep values not in the table</Label>
+      </div>
+    </div>
+  );
+};
+
+const StepFields: React.FC<StepFieldsProps> = ({ step, onChange }) => {
+  switch (step.type) {
+    case 'case':
+      return (
+        <Select value={step.mode} onValueChange={(mode) => onChange({ ...step, mode: mode as TextCase })}>
+          <SelectTrigger className="h-8 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {TEXT_CASES.map(option => <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>)}
+          </SelectContent>
+        </Select>
+      );
+    case 'replace':
+      return (
+        <div className="flex gap-2">
+          <Input value={step.pattern} placeholder="Pattern" onChange={(e) => onChange({ ...step, pattern: e.target.value })} className="h-8 text-xs font-mono" />
+          <Input value={step.replacement} placeholder="Replacement" onChange={(e) => onChange({ ...step, replacement: e.target.value })} className="h-8 text-xs font-mono" />
+          <Input value={step.flags} placeholder="Flags" onChange={(e) => onChange({ ...step, flags: e.target.value })} className="h-8 w-16 text-xs font-mono" />
+        </div>
+      );
+    case 'splitJoin':
+      return (
+        <div className="flex gap-2">
+          <Input value={step.separator} placeholder="Split on" onChange={(e) => onChange({ ...step, separator: e.target.value })} className="h-8 text-xs" />
+          <Input value={step.joiner} placeholder="Join with" onChange={(e) => onChange({ ...step, joiner: e.target.value })} className="h-8 text-xs" />
+        </div>
+      );
+    case 'affix':
+      return (
+        <div className="flex gap-2">
+          <Input value={step.prefix} placeholder="Prefix" onChange={(e) => onChange({ ...step, prefix: e.target.value })} className="h-8 text-xs" />
+          <Input value={step.suffix} placeholder="Suffix" onChange={(e) => onChange({ ...step, suffix: e.target.value })} className="h-8 text-xs" />
+        </div>
+      );
+    case 'truncate':
+      return (
+        <Input
+          type="number"
+          min={1}
+          value={step.length}
+          onChange={(e) => onChange({ ...step, length: parseInt(e.target.value, 10) })}
+          className="h-8 w-24 text-xs"
+        />
+      );
+    case 'defaultIfEmpty':
+      return <Input value={step.value} placeholder="Default value" onChange={(e) => onChange({ ...step, value: e.target.value })} className="h-8 text-xs" />;
+    case 'lookup':
+      return <LookupStepFields step={step} onChange={onChange} />;
+    default:
+      return null;
+  }
+};
+
+const TransformPipelineEditor: React.FC<TransformPipelineEditorProps> = ({ steps, samples, onChange }) => {
+  const updateStep = (index: number, step: TransformStep) => onChange(steps.map((s, i) => i === index ? step : s));
+  const removeStep = (index: number) => onChange(steps.filter((_, i) => i !== index));
+  const moveStep = (index: number, offset: number) => {
+    const next = [...steps];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    onChange(next);
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm" className="h-7 px-2 text-xs text-gray-500 flex items-center gap-1">
+          <Wand2 className="w-3 h-3" />
+          {steps.length > 0 ? `${steps.length} transform${steps.length === 1 ? '' : 's'}` : 'Transforms'}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[520px] space-y-4" align="start">
+        <div className="space-y-2 max-h-[300px] overflow-y-auto">
+          {steps.length === 0 && <p className="text-sm text-gray-500">No transforms; values are imported as they are.</p>}
+          {steps.map((step, index) => {
+            const error = getTransformStepError(step);
+            return (
+              // Steps have no ids; a changed type at the same position should remount its inputs
+              <div key={`${index}-${step.type}`} className="p-2 border rounded space-y-2">
+                <div className="flex items-center justify-between">
+                  <span className="text-sm font-medium">{index + 1}. {getTransformStepLabel(step)}</span>
+                  <div className="flex">
+                    <Button variant="ghost" size="sm" className="h-6 px-1" disabled={index === 0} onClick={() => moveStep(index, -1)}>
+                      <ArrowUp className="w-3 h-3" />
+                    </Button>
+                    <Button variant="ghost" size="sm" className="h-6 px-1" disabled={index === steps.length - 1} onClick={() => moveStep(index, 1)}>
+                      <ArrowDown className="w-3 h-3" />
+                    </Button>
+                    <Button variant="ghost" size="sm" className="h-6 px-1 text-gray-400 hover:text-red-600" onClick={() => removeStep(index)}>
+                      <Trash2 className="w-3 h-3" />
+                    </Button>
+                  </div>
+                </div>
+                <StepFields step={step} onChange={(next) => updateStep(index, next)} />
+                {error && <p className="text-xs text-red-600">{error} - this step is skipped</p>}
+              </div>
+            );
+          })}
+        </div>
+
+        <Select value="" onValueChange={(type) => onChange([...steps, createTransformStep(type as TransformStep['type'])])}>
+          <SelectTrigger className="h-8 text-sm">
+            <SelectValue placeholder="Add a step..." />
+          </SelectTrigger>
+          <SelectContent>
+            {TRANSFORM_STEP_TYPES.map(option => <SelectItem key={option.type} value={option.type}>{option.label}</SelectItem>)}
+          </SelectContent>
+        </Select>
+
+        {samples.length > 0 && (
+          <div className="space-y-1">
+            <Label className="text-sm">Preview</Label>
+            <div className="border rounded text-xs divide-y">
+              {samples.map((sample, index) => (
+                <div key={index} className="grid grid-cols-2 gap-2 px-2 py-1">
+                  <span className="truncate text-gray-500" title={sample}>{sample || <em>empty</em>}</span>
+                  <span className="truncate" title={applyTransforms(sample, steps)}>{applyTransforms(sample, steps) || <em className="text-gray-400">empty</em>}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default TransformPipelineEditor;
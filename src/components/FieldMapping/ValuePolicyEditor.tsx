@@ -0,0 +1,72 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { EmptyValueMode, ValuePolicy } from '@/types/contentstack';
+import { EMPTY_VALUE_MODES, describeValuePolicy, parseNullTokens } from '@/utils/valuePolicy';
+import { SlidersHorizontal } from 'lucide-react';
+
+interface ValuePolicyEditorProps {
+  policy: ValuePolicy;
+  onChange: (policy: ValuePolicy) => void;
+}
+
+const ValuePolicyEditor: React.FC<ValuePolicyEditorProps> = ({ policy, onChange }) => {
+  const [nullTokensText, setNullTokensText] = useState(policy.nullTokens.join(', '));
+
+  useEffect(() => {
+    setNullTokensText(policy.nullTokens.join(', '));
+  }, [policy.nullTokens]);
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm" className="h-7 px-2 text-xs text-gray-500 flex items-center gap-1">
+          <SlidersHorizontal className="w-3 h-3" />
+          {describeValuePolicy(policy)}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 space-y-4" align="start">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="trim-values" className="text-sm">Trim leading and trailing spaces</Label>
+          <Switch
+            id="trim-values"
+            checked={policy.trim}
+            onCheckedChange={(checked) => onChange({ ...policy, trim: checked })}
+          />
+        </div>
+
+        <div className="space-y-1">
+          <Label className="text-sm">Treat empty cells as</Label>
+          <Select value={policy.emptyAs} onValueChange={(value) => onChange({ ...policy, emptyAs: value as EmptyValueMode })}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {EMPTY_VALUE_MODES.map(mode => (
+                <SelectItem key={mode.value} value={mode.value}>{mode.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-1">
+          <Label htmlFor="null-tokens" className="text-sm">Also treat these values as empty</Label>
+          <Input
+            id="null-tokens"
+            value={nullTokensText}
+            placeholder="N/A, NULL"
+            onChange={(e) => setNullTokensText(e.target.value)}
+            onBlur={() => onChange({ ...policy, nullTokens: parseNullTokens(nullTokensText) })}
+          />
+          <p className="text-xs text-gray-500">Comma-separated, case-insensitive.</p>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default ValuePolicyEditor;
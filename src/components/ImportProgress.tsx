@@ -3,6 +3,7 @@ import React, { useState, useEffect } from 'react';
 import { Progress } from "@/components/ui/progress";
 import { toast } from "@/hooks/use-toast";
 import {
+  AssetSource,
   ContentstackConfig,
   CsvData,
   FieldMapping,
@@ -17,6 +18,7 @@ interface ImportProgressProps {
   csvData: CsvData;
   config: ContentstackConfig;
   fieldMapping: FieldMapping[];
+  assetSource: AssetSource;
   onImportComplete: (results: ImportResult[]) => void;
   isImporting: boolean;
   setIsImporting: React.Dispatch<React.SetStateAction<boolean>>;
@@ -26,6 +28,7 @@ const ImportProgress: React.FC<ImportProgressProps> = ({
   csvData,
   config,
   fieldMapping,
+  assetSource,
   onImportComplete,
   isImporting,
   setIsImporting
@@ -39,6 +42,7 @@ const ImportProgress: React.FC<ImportProgressProps> = ({
     csvData,
     config,
     fieldMapping,
+    assetSource,
     onImportComplete,
     setIsImporting
   );
@@ -103,7 +107,7 @@ const ImportProgress: React.FC<ImportProgressProps> = ({
         mappedFieldsCount={mappedFieldsCount} 
       />
 
-      <ImportLogsTable logs={filteredLogs} />
+      <ImportLogsTable logs={filteredLogs} rowSources={csvData.rowSources} />
     </div>
   );
 };
@@ -12,6 +12,7 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
+import { CsvRowSource } from '@/types/contentstack';
 
 interface LogEntry {
   timestamp: string;
@@ -23,9 +24,17 @@ interface LogEntry {
 
 interface ImportLogsTableProps {
   logs: LogEntry[];
+  // Source file and line of each CSV row, shown next to the row number
+  rowSources?: CsvRowSource[];
 }
 
-const ImportLogsTable: React.FC<ImportLogsTableProps> = ({ logs }) => {
+const ImportLogsTable: React.FC<ImportLogsTableProps> = ({ logs, rowSources }) => {
+  const getRowSource = (rowIndex?: number) => {
+    const source = rowIndex !== undefined ? rowSources?.[rowIndex] : undefined;
+    if (!source) return null;
+    return source.file ? `${source.file}:${source.line}` : `line ${source.line}`;
+  };
+
   const getLogIcon = (type: LogEntry['type']) => {
     switch (type) {
       case 'success':
@@ -74,6 +83,9 @@ const ImportLogsTable: React.FC<ImportLogsTableProps> = ({ logs }) => {
             <TableRow key={index} className={log.type === 'error' ? 'bg-red-50' : log.type === 'success' ? 'bg-green-50' : log.type === 'published' ? 'bg-blue-50' : log.type === 'warning' ? 'bg-yellow-50' : ''}>
               <TableCell className="font-medium">
                 {log.rowIndex !== undefined ? log.rowIndex + 1 : '-'}
+                {getRowSource(log.rowIndex) && (
+                  <div className="text-xs font-normal text-gray-500 break-all">{getRowSource(log.rowIndex)}</div>
+                )}
               </TableCell>
               <TableCell className="text-xs">{log.timestamp}</TableCell>
               <TableCell>
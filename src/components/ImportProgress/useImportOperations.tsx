@@ -1,6 +1,15 @@
-import { useState, useCallback } from 'react';
-import { ContentstackConfig, CsvData, FieldMapping, ImportResult } from '@/types/contentstack';
+import { useState, useCallback, useMemo } from 'react';
+import { AssetSource, ContentstackConfig, CsvCellType, CsvData, FieldMapping, ImportResult } from '@/types/contentstack';
 import { transformNestedValue, mergeNestedData } from '@/utils/fieldUtils';
+import { getColumns } from '@/utils/csvDataUtils';
+import { ImportRun, createImportRun, getMappingCellType, getMappingRawValue } from '@/utils/mappingValues';
+import { applyTransforms } from '@/utils/transformPipeline';
+import { InstanceFieldValue, getInstanceFieldValue, mergeInstanceValues } from '@/utils/entryPayload';
+import { getInstanceLimitError, getMultiValueParts } from '@/utils/multiValue';
+import { applyValuePolicy, getValuePolicy } from '@/utils/valuePolicy';
+import { DEFAULT_REFERENCE_MATCH_FIELD, ReferenceResolver, getReferenceContentTypes } from '@/utils/referenceResolver';
+import { findAssetFile } from '@/utils/assetFiles';
+import { AssetUploader, isAssetUrl } from '@/utils/assetUploader';
 
 interface LogEntry {
   timestamp: string;
@@ -14,10 +23,13 @@ export const useImportOperations = (
   csvData: CsvData,
   config: ContentstackConfig,
   fieldMapping: FieldMapping[],
+  assetSource: AssetSource,
   onImportComplete: (results: ImportResult[]) => void,
   setIsImporting: React.Dispatch<React.SetStateAction<boolean>>
 ) => {
   const [logs, setLogs] = useState<LogEntry[]>([]);
+  const referenceResolver = useMemo(() => new ReferenceResolver(config), [config]);
+  const assetUploader = useMemo(() => new AssetUploader(config), [config]);
 
   const addLog = (message: string, type: 'info' | 'warning' | 'error' | 'success' | 'published' = 'info', data?: any, rowIndex?: number) => {
     const logEntry: LogEntry = {
@@ -145,17 +157,32 @@ export const useImportOperations = (
     }
   }, [config]);
 
-  const transformValue = useCallback(async (value: string, mapping: FieldMapping): Promise<any> => {
+  const transformValue = useCallback(async (value: string, mapping: FieldMapping, cellType?: CsvCellType): Promise<any> => {
     if (value === null || value === undefined) {
       return null;
     }
 
-    if (mapping.fieldType === 'file') {
-      if (typeof value === 'string' && value.trim() !== '') {
-        console.warn(`File field "${mapping.contentstackField}" contains filename "${value}" but no actual file upload. Skipping this field.`);
-        return null;
-      }
-      return null;
+    // Spreadsheet cells arrive already typed, so there is nothing to re-parse
+    if (cellType === 'number' && mapping.fieldType === 'number') {
+      return Number(value);
+    }
+
+    if (cellType === 'boolean' && mapping.fieldType === 'boolean') {
+      return value === 'true';
+    }
+
+    if (cellType === 'date' && mapping.fieldType === 'date') {
+      return value;
+    }
+
+    // Resolves to a { uid, _content_type_uid } link, or null when no entry matches
+    if (mapping.fieldType === 'reference') {
+      const contentTypes = getReferenceContentTypes(mapping);
+      if (contentTypes.length === 0) return null;
+      const matchField = mapping.referenceMatchField || undefined;
+      return mapping.createMissingReferences
+        ? referenceResolver.resolveOrCreate(value, contentTypes, matchField)
+        : referenceResolver.resolve(value, contentTypes, matchField);
     }
 
     if (mapping.fieldType === 'number') {
@@ -223,7 +250,7 @@ export const useImportOperations = (
     }
 
     return value;
-  }, []);
+  }, [referenceResolver]);
 
   const publishEntry = async (entryUid: string) => {
     const publishUrl = `${config.host}/v3/content_types/${config.contentType}/entries/${entryUid}/publish`;
@@ -256,48 +283,152 @@ export const useImportOperations = (
 
   const handleCreateOrUpdateEntry = useCallback(async (
     row: Record<string, string>,
-    rowIndex: number
+    rowIndex: number,
+    run: ImportRun
   ): Promise<ImportResult> => {
     try {
       let entryData: Record<string, any> = {};
+      // Fields whose empty cells should only clear existing entries
+      const fieldsToClear: string[] = [];
+      const columns = getColumns(csvData);
+      // Reference values without a matching entry, reported with the row's result
+      const unresolvedReferences: string[] = [];
+      const reportUnresolvedReference = (mapping: FieldMapping, value: string) => {
+        const contentTypes = getReferenceContentTypes(mapping).join(', ') || 'no content type';
+        const matchField = mapping.referenceMatchField || DEFAULT_REFERENCE_MATCH_FIELD;
+        unresolvedReferences.push(`${mapping.contentstackField}: "${value}"`);
+        addLog(`Unresolved reference for "${mapping.contentstackField}": no entry in ${contentTypes} has ${matchField} "${value}"`, 'warning', undefined, rowIndex);
+      };
+      const withReferences = (result: ImportResult): ImportResult =>
+        unresolvedReferences.length > 0 ? { ...result, unresolvedReferences } : result;
+      // File values whose download or upload failed, already reported when they were skipped
+      const failedAssetValues = new Set<string>();
+      // File fields upload the file a cell names or links to, with the asset title and alt text taken from the row
+      const transformRowValue = async (value: string, mapping: FieldMapping, cellType?: CsvCellType) => {
+        if (mapping.fieldType !== 'file') return transformValue(value, mapping, cellType);
+
+        try {
+          const file = isAssetUrl(value) ? await assetUploader.download(value) : findAssetFile(assetSource.files, value);
+          if (!file) return null;
+          const asset = await assetUploader.upload(file, {
+            folderUid: assetSource.folderUid,
+            title: mapping.assetTitleColumn ? row[mapping.assetTitleColumn]?.trim() : undefined,
+            description: mapping.assetAltColumn ? row[mapping.assetAltColumn]?.trim() : undefined
+          });
+          return asset.uid;
+        } catch (error) {
+          // A dead link or failed upload skips this value, like a file name with no matching file
+          failedAssetValues.add(value);
+          const message = error instanceof Error ? error.message : 'Unknown error';
+          addLog(`Skipping file field "${mapping.contentstackField}" (${message})`, 'warning', undefined, rowIndex);
+          return null;
+        }
+      };
+      // Block and multiple group fields are collected first and written as whole instances after the loop
+      const instanceValues: InstanceFieldValue[] = [];
+      const setFieldValue = (mapping: FieldMapping, value: unknown, keepNull = false) => {
+        const instanceValue = getInstanceFieldValue(mapping, value);
+        if (instanceValue) {
+          instanceValues.push(instanceValue);
+        } else {
+          entryData = mergeNestedData(entryData, value, mapping.contentstackField, keepNull);
+        }
+      };
 
       for (const mapping of fieldMapping) {
         if (mapping.contentstackField === 'skip') continue;
 
-        const csvValue = row[mapping.csvColumn];
-        if (!csvValue && mapping.isRequired) {
+        const policy = getValuePolicy(mapping);
+        const rawValue = applyTransforms(getMappingRawValue(mapping, row, columns, rowIndex, run), mapping.transforms);
+        const csvValue = applyValuePolicy(rawValue, policy);
+        if (csvValue === null && mapping.isRequired) {
           addLog(`Required field "${mapping.contentstackField}" is missing.`, 'warning', undefined, rowIndex);
           return { rowIndex, success: false, error: `Missing required field: ${mapping.contentstackField}` };
         }
 
-        if (csvValue) {
-          const transformedValue = await transformNestedValue(csvValue, mapping.contentstackField, mapping, transformValue);
-          
-          if (transformedValue === null) {
-            if (mapping.fieldType === 'file') {
-              addLog(`Skipping file field "${mapping.contentstackField}" (contains filename: "${csvValue}")`, 'info', undefined, rowIndex);
-            } else if (mapping.fieldType === 'select') {
-              addLog(`Skipping select field "${mapping.contentstackField}" (no matching option for: "${csvValue}")`, 'warning', undefined, rowIndex);
-            }
-            continue;
+        if (csvValue === null) {
+          if (policy.emptyAs === 'null') {
+            setFieldValue(mapping, null, true);
+          } else if (policy.emptyAs === 'empty') {
+            setFieldValue(mapping, mapping.multiple ? [] : '');
+          } else if (policy.emptyAs === 'clear' && !mapping.blockType && !mapping.groupPath) {
+            // Block and group instances are rebuilt as a whole, so a single field in them cannot be cleared on its own
+            fieldsToClear.push(mapping.contentstackField);
           }
+          continue;
+        }
 
-          // Handle global fields - wrap in nested object structure
-          if (mapping.fieldType === 'global_field') {
-            const globalFieldData = { [mapping.contentstackField.split('.').pop()!]: transformedValue };
-            entryData = mergeNestedData(entryData, globalFieldData, mapping.contentstackField.split('.')[0]);
-            addLog(`Global field "${mapping.contentstackField}" structured as nested object`, 'info', JSON.stringify(globalFieldData), rowIndex);
-          } else {
-            entryData = mergeNestedData(entryData, transformedValue, mapping.contentstackField);
+        const cellType = getMappingCellType(mapping, csvData, rowIndex);
+
+        // Multiple fields take a list: split the cell and transform each value on its own
+        if (mapping.multiple) {
+          const parts = getMultiValueParts(csvValue, mapping, policy, cellType);
+          const limitError = getInstanceLimitError(mapping, parts.length);
+          if (limitError) {
+            addLog(limitError, 'error', undefined, rowIndex);
+            return { rowIndex, success: false, error: limitError };
           }
-          
-          // Add specific logging for select fields
-          if (mapping.fieldType === 'select') {
-            addLog(`Select field "${mapping.contentstackField}" set to: "${transformedValue}"`, 'info', undefined, rowIndex);
+
+          const values = [];
+          for (const part of parts) {
+            // The items of a JSON array are plain values, not JSON themselves
+            const transformedPart = await transformNestedValue(part, mapping.contentstackField, mapping, transformRowValue, cellType === 'json' ? undefined : cellType);
+            if (transformedPart !== null) {
+              values.push(transformedPart);
+            } else if (mapping.fieldType === 'reference') {
+              reportUnresolvedReference(mapping, part);
+            }
+          }
+          if (values.length === 0 && mapping.fieldType === 'reference' && mapping.isRequired) {
+            return { rowIndex, success: false, error: `Unresolved required reference: ${mapping.contentstackField}`, unresolvedReferences };
+          }
+          if (values.length < parts.length) {
+            addLog(`Skipped ${parts.length - values.length} of ${parts.length} values for "${mapping.contentstackField}"`, 'warning', undefined, rowIndex);
           }
+
+          setFieldValue(mapping, values);
+          continue;
+        }
+        const transformedValue = await transformNestedValue(csvValue, mapping.contentstackField, mapping, transformRowValue, cellType);
+        
+        if (transformedValue === null) {
+          if (mapping.fieldType === 'file' && failedAssetValues.has(csvValue)) {
+            // Reported by transformRowValue
+          } else if (mapping.fieldType === 'file' && assetSource.files.length === 0) {
+            addLog(`Skipping file field "${mapping.contentstackField}" (no asset files chosen for: "${csvValue}")`, 'info', undefined, rowIndex);
+          } else if (mapping.fieldType === 'file') {
+            addLog(`Skipping file field "${mapping.contentstackField}" (no chosen file matches: "${csvValue}")`, 'warning', undefined, rowIndex);
+          } else if (mapping.fieldType === 'select') {
+            addLog(`Skipping select field "${mapping.contentstackField}" (no matching option for: "${csvValue}")`, 'warning', undefined, rowIndex);
+          } else if (mapping.fieldType === 'reference') {
+            reportUnresolvedReference(mapping, csvValue);
+            if (mapping.isRequired) {
+              return { rowIndex, success: false, error: `Unresolved required reference: ${mapping.contentstackField}`, unresolvedReferences };
+            }
+          }
+          continue;
+        }
+
+        // Handle global fields - wrap in nested object structure
+        if (mapping.fieldType === 'global_field') {
+          const globalFieldData = { [mapping.contentstackField.split('.').pop()!]: transformedValue };
+          entryData = mergeNestedData(entryData, globalFieldData, mapping.contentstackField.split('.')[0]);
+          addLog(`Global field "${mapping.contentstackField}" structured as nested object`, 'info', JSON.stringify(globalFieldData), rowIndex);
+        } else if (mapping.fieldType === 'reference') {
+          // Reference fields always take a list of links
+          setFieldValue(mapping, [transformedValue]);
+        } else {
+          setFieldValue(mapping, transformedValue);
+        }
+        
+        // Add specific logging for select fields
+        if (mapping.fieldType === 'select') {
+          addLog(`Select field "${mapping.contentstackField}" set to: "${transformedValue}"`, 'info', undefined, rowIndex);
         }
       }
 
+      entryData = mergeInstanceValues(entryData, instanceValues);
+
       addLog(`Entry data structure: ${JSON.stringify(entryData, null, 2)}`, 'info', JSON.stringify(entryData, null, 2), rowIndex);
 
       // Check if entry already exists
@@ -307,12 +438,16 @@ export const useImportOperations = (
       let isUpdate = false;
 
       if (existingEntry) {
+        fieldsToClear.forEach(fieldPath => {
+          entryData = mergeNestedData(entryData, null, fieldPath, true);
+        });
+
         // Compare data to see if update is needed
         const isSameData = compareEntryData(existingEntry, entryData);
         
         if (isSameData) {
           addLog(`Entry already exists with same data, skipping`, 'info', undefined, rowIndex);
-          return { rowIndex, success: true, entryUid: existingEntry.uid, skipped: true };
+          return withReferences({ rowIndex, success: true, entryUid: existingEntry.uid, skipped: true });
         } else {
           // Update existing entry
           addLog(`Updating existing entry with UID: ${existingEntry.uid}`, 'info', undefined, rowIndex);
@@ -333,19 +468,19 @@ export const useImportOperations = (
         try {
           const publishResult = await publishEntry(entryUid);
           addLog(`Entry published successfully`, 'published', publishResult, rowIndex);
-          return { rowIndex, success: true, entryUid, published: true, publishResult, updated: isUpdate };
+          return withReferences({ rowIndex, success: true, entryUid, published: true, publishResult, updated: isUpdate });
         } catch (publishError: any) {
           addLog(`Failed to publish entry: ${publishError.message || publishError}`, 'error', publishError, rowIndex);
-          return { rowIndex, success: true, entryUid, published: false, error: publishError.message || publishError, updated: isUpdate };
+          return withReferences({ rowIndex, success: true, entryUid, published: false, error: publishError.message || publishError, updated: isUpdate });
         }
       }
 
-      return { rowIndex, success: true, entryUid, updated: isUpdate };
+      return withReferences({ rowIndex, success: true, entryUid, updated: isUpdate });
     } catch (error: any) {
       addLog(`Unexpected error: ${error.message || error}`, 'error', error, rowIndex);
       return { rowIndex, success: false, error: error.message || error };
     }
-  }, [config, fieldMapping, transformValue, findExistingEntry, compareEntryData, updateExistingEntry, createNewEntry]);
+  }, [config, csvData, fieldMapping, assetSource, assetUploader, transformValue, findExistingEntry, compareEntryData, updateExistingEntry, createNewEntry]);
 
   const startImport = useCallback(async () => {
     setIsImporting(true);
@@ -354,7 +489,12 @@ export const useImportOperations = (
     const totalRows = csvData.rows.length;
     const mappedFieldsCount = fieldMapping.filter(mapping => mapping.contentstackField !== 'skip').length;
 
-    addLog(`Starting import of ${totalRows} rows with ${mappedFieldsCount} mapped fields`, 'info');
+    const run = createImportRun();
+    // Entries created since the last run must be found again
+    referenceResolver.clear();
+    assetUploader.clear();
+
+    addLog(`Starting import of ${totalRows} rows with ${mappedFieldsCount} mapped fields (run ${run.id})`, 'info');
 
     const importResults: ImportResult[] = [];
 
@@ -362,7 +502,7 @@ export const useImportOperations = (
       const row = csvData.rows[i];
       addLog(`Processing row ${i + 1}...`, 'info', undefined, i);
       
-      const result = await handleCreateOrUpdateEntry(row, i);
+      const result = await handleCreateOrUpdateEntry(row, i, run);
       importResults.push(result);
     }
 
@@ -376,9 +516,25 @@ export const useImportOperations = (
     addLog(`Import completed: ${successCount} successful (${createdCount} created, ${updatedCount} updated, ${skippedCount} skipped), ${publishedCount} published, ${errorCount} failed`, 
            errorCount > 0 ? 'warning' : 'success');
 
+    const unresolvedRows = importResults.filter(r => r.unresolvedReferences?.length);
+    if (unresolvedRows.length > 0) {
+      addLog(`${unresolvedRows.length} rows have unresolved references: ${unresolvedRows.map(r => `row ${r.rowIndex + 1}`).join(', ')}`, 'warning');
+    }
+
+    const uploadedAssets = assetUploader.getUploadedAssets();
+    if (uploadedAssets.length > 0) {
+      const reusedCount = uploadedAssets.filter(asset => asset.reused).length;
+      addLog(`Uploaded ${uploadedAssets.length - reusedCount} assets, reused ${reusedCount} existing assets with identical content`, 'info', uploadedAssets);
+    }
+
+    const stubs = referenceResolver.getCreatedStubs();
+    if (stubs.length > 0) {
+      addLog(`Created ${stubs.length} missing referenced entries: ${stubs.map(stub => `${stub.contentType} "${stub.title}"`).join(', ')}`, 'info', stubs);
+    }
+
     setIsImporting(false);
     onImportComplete(importResults);
-  }, [csvData, config, fieldMapping, onImportComplete, handleCreateOrUpdateEntry, setIsImporting]);
+  }, [csvData, config, fieldMapping, onImportComplete, handleCreateOrUpdateEntry, setIsImporting, referenceResolver, assetUploader]);
 
   return {
     logs,
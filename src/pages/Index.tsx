@@ -6,7 +6,9 @@ import ConfigurationForm from '@/components/ConfigurationForm';
 import CsvUpload from '@/components/CsvUpload';
 import FieldMapping from '@/components/FieldMapping';
 import ImportProgress from '@/components/ImportProgress';
-import { ContentstackConfig, CsvData, FieldMapping as FieldMappingType, ImportResult } from '@/types/contentstack';
+import AssetFilesPanel from '@/components/CsvUpload/AssetFilesPanel';
+import { AssetSource, ContentstackConfig, CsvData, FieldMapping as FieldMappingType, ImportResult } from '@/types/contentstack';
+import { toast } from '@/hooks/use-toast';
 
 const STORAGE_KEYS = {
   CONFIG: 'contentstack-config',
@@ -17,6 +19,9 @@ const STORAGE_KEYS = {
   MANAGEMENT_TOKEN: 'contentstack-management-token'
 };
 
+// Larger files stay in memory only: serializing them blocks the tab and overruns the localStorage quota
+const MAX_PERSISTED_ROWS = 5000;
+
 const Index = () => {
   const [activeTab, setActiveTab] = useState('config');
   const [config, setConfig] = useState<ContentstackConfig | null>(null);
@@ -25,6 +30,8 @@ const Index = () => {
   const [importResults, setImportResults] = useState<ImportResult[]>([]);
   const [isImporting, setIsImporting] = useState(false);
   const [persistedSchemaFile, setPersistedSchemaFile] = useState<{ name: string; content: string } | null>(null);
+  // Local files cannot be persisted, so asset files are chosen again after a reload
+  const [assetSource, setAssetSource] = useState<AssetSource>({ files: [] });
 
   // Load persisted data on component mount
   useEffect(() => {
@@ -80,8 +87,22 @@ const Index = () => {
   }, [config]);
 
   useEffect(() => {
-    if (csvData) {
+    if (!csvData) return;
+    if (csvData.rows.length > MAX_PERSISTED_ROWS) {
+      localStorage.removeItem(STORAGE_KEYS.CSV_DATA);
+      return;
+    }
+    try {
       localStorage.setItem(STORAGE_KEYS.CSV_DATA, JSON.stringify(csvData));
+    } catch (error) {
+      console.error('Error persisting CSV data:', error);
+      // Drop the previous file's data so a reload does not restore the wrong rows
+      localStorage.removeItem(STORAGE_KEYS.CSV_DATA);
+      toast({
+        title: "Data Not Saved",
+        description: "The uploaded data is too large to keep in browser storage and will need to be uploaded again after a reload.",
+        variant: "destructive",
+      });
     }
   }, [csvData]);
 
@@ -121,6 +142,11 @@ const Index = () => {
     setActiveTab('mapping');
   };
 
+  // Edits such as column renames keep column ids, so the current mapping stays valid
+  const handleCsvDataChange = (data: CsvData) => {
+    setCsvData(data);
+  };
+
   const handleMappingComplete = (mapping: FieldMappingType[]) => {
     setFieldMapping(mapping);
     setActiveTab('import');
@@ -142,6 +168,7 @@ const Index = () => {
     setCsvData(null);
     setFieldMapping([]);
     setPersistedSchemaFile(null);
+    setAssetSource({ files: [] });
     setActiveTab('config');
   };
 
@@ -184,13 +211,14 @@ const Index = () => {
               </TabsContent>
 
               <TabsContent value="upload" className="space-y-6">
-                <CsvUpload onUpload={handleCsvUpload} initialData={csvData} />
+                <CsvUpload onUpload={handleCsvUpload} onDataChange={handleCsvDataChange} initialData={csvData} />
+                {config && <AssetFilesPanel config={config} source={assetSource} onChange={setAssetSource} />}
               </TabsContent>
 
               <TabsContent value="mapping" className="space-y-6">
                 {csvData && config && (
                   <FieldMapping
-                    csvHeaders={csvData.headers}
+                    csvData={csvData}
                     config={config}
                     onMappingComplete={handleMappingComplete}
                     initialMapping={fieldMapping}
@@ -204,6 +232,7 @@ const Index = () => {
                     csvData={csvData}
                     config={config}
                     fieldMapping={fieldMapping}
+                    assetSource={assetSource}
                     onImportComplete={handleImportComplete}
                     isImporting={isImporting}
                     setIsImporting={setIsImporting}
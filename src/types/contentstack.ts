@@ -8,20 +8,135 @@ export interface ContentstackConfig {
   schema?: ContentstackField[];
 }
 
+export type CsvCellType = 'string' | 'number' | 'boolean' | 'date' | 'json';
+
+export interface CsvColumn {
+  // Stable key used for row values and mappings; never changes after upload
+  id: string;
+  // Display name, editable by the user
+  header: string;
+  // Header exactly as it appeared in the source file
+  sourceHeader: string;
+}
+
+// Where a row came from; `line` is the CSV/NDJSON line, the non-empty sheet row, or the record number in a JSON array
+export interface CsvRowSource {
+  file: string;
+  line: number;
+}
+
 export interface CsvData {
   headers: string[];
   rows: Record<string, string>[];
+  // Rows are keyed by column id; older persisted data has no columns and is keyed by header
+  columns?: CsvColumn[];
+  // Original cell types for typed sources such as spreadsheets and JSON, parallel to rows
+  cellTypes?: Record<string, CsvCellType>[];
+  // Source file and line of each row, parallel to rows
+  rowSources?: CsvRowSource[];
 }
 
+// What an empty cell means for the mapped field:
+// omit - leave the field out, so updates keep the current value
+// null - send null
+// empty - send an empty string
+// clear - leave the field out of new entries and clear it on existing ones
+export type EmptyValueMode = 'omit' | 'null' | 'empty' | 'clear';
+
+export interface ValuePolicy {
+  trim: boolean;
+  emptyAs: EmptyValueMode;
+  // Cell values treated as empty, compared case-insensitively (e.g. N/A, NULL)
+  nullTokens: string[];
+}
+
+export type TextCase = 'upper' | 'lower' | 'title' | 'sentence';
+
+// One step of a mapping's transform pipeline; plain data so pipelines can be saved with the mapping
+export type TransformStep =
+  | { type: 'trim' }
+  | { type: 'case'; mode: TextCase }
+  | { type: 'replace'; pattern: string; replacement: string; flags: string }
+  | { type: 'splitJoin'; separator: string; joiner: string }
+  | { type: 'affix'; prefix: string; suffix: string }
+  | { type: 'slugify' }
+  | { type: 'truncate'; length: number }
+  | { type: 'stripHtml' }
+  | { type: 'defaultIfEmpty'; value: string }
+  // Values not in the table are kept unless keepUnmatched is false, in which case they become empty
+  | { type: 'lookup'; table: Record<string, string>; keepUnmatched: boolean };
+
+// Where a mapping's value comes from: a single CSV column, a template combining several columns,
+// the same constant for every row, or a value generated during the import
+export type MappingSource = 'column' | 'template' | 'constant' | 'computed';
+
+export type ComputedValueKind = 'currentDate' | 'rowNumber' | 'runId' | 'uuid';
+
 export interface FieldMapping {
+  // Column header; for other sources a readable description of the value
   csvColumn: string;
+  // Id of the mapped CsvColumn; mappings saved before column ids existed only have csvColumn
+  columnId?: string;
   contentstackField: string;
   fieldType: 'text' | 'number' | 'boolean' | 'date' | 'reference' | 'file' | 'blocks' | 'global_field' | 'link' | 'select';
   isRequired: boolean;
   referenceContentType?: string;
+  // Every content type a reference field accepts; looked up in order when resolving values
+  referenceContentTypes?: string[];
+  // Field of the referenced entries compared with the cell value; DEFAULT_REFERENCE_MATCH_FIELD when unset
+  referenceMatchField?: string;
+  // Create a stub entry titled with the value when no referenced entry matches
+  createMissingReferences?: boolean;
+  // Column ids whose values become the title and alt text (stored as description) of uploaded assets
+  assetTitleColumn?: string;
+  assetAltColumn?: string;
   blockType?: string;
   parentField?: string;
   selectOptions?: SelectOption[];
+  multiple?: boolean;
+  maxInstance?: number;
+  // Path of the multiple group the field repeats in, e.g. "specs" for "specs.label"
+  groupPath?: string;
+  // Which block or group instance the field is written to, e.g. 1 for a "sections[1].hero.title" header; unset
+  // puts all unindexed values into one instance. Inside a multiple group the index picks the group item.
+  instanceIndex?: number;
+  // Separates the values of a multiple field within one cell; DEFAULT_SPLIT_DELIMITER when unset
+  splitDelimiter?: string;
+  valuePolicy?: ValuePolicy;
+  // Applied in order to the raw value, before the value policy
+  transforms?: TransformStep[];
+  // 'column' when unset
+  source?: MappingSource;
+  // Text with {column header} placeholders, e.g. "{first_name} {last_name}"
+  template?: string;
+  constantValue?: string;
+  computed?: ComputedValueKind;
+  // Score of the automatic match that picked this field; unset when the field was chosen by hand
+  confidence?: number;
+}
+
+export interface MappingTemplate {
+  id: string;
+  name: string;
+  contentTypeUid: string;
+  createdAt: string;
+  updatedAt: string;
+  // Mappings are matched to columns by header name when the template is applied
+  mappings: FieldMapping[];
+}
+
+// A local file that file fields can reference by name
+export interface AssetFile {
+  // Path inside the chosen folder or ZIP archive, e.g. "images/hero.png"
+  path: string;
+  name: string;
+  file: Blob;
+}
+
+export interface AssetSource {
+  files: AssetFile[];
+  // Asset folder that uploads go into; the assets root when unset
+  folderUid?: string;
 }
 
 export interface ImportResult {
@@ -33,6 +148,8 @@ export interface ImportResult {
   publishResult?: any;
   updated?: boolean;
   skipped?: boolean;
+  // Reference values of the row that matched no entry, e.g. 'author: "Jane Doe"'
+  unresolvedReferences?: string[];
 }
 
 export interface ContentstackField {
@@ -44,6 +161,10 @@ export interface ContentstackField {
   blocks?: BlockSchema[];
   schema?: ContentstackField[];
   enum?: SelectOption[];
+  multiple?: boolean;
+  max_instance?: number;
+  // Reference fields mark accepting several entries here instead of in `multiple`
+  field_metadata?: { ref_multiple?: boolean };
 }
 
 export interface SelectOption {
@@ -67,4 +188,9 @@ export interface FlattenedField {
   parentField?: string;
   blockType?: string;
   selectOptions?: SelectOption[];
+  // The field holds a list of values; maxInstance caps its length when the schema sets one
+  multiple?: boolean;
+  maxInstance?: number;
+  // Set for children of a multiple group: the path of the innermost such group
+  groupPath?: string;
 }
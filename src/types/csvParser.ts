@@ -0,0 +1,79 @@
+import { CsvData } from '@/types/contentstack';
+
+export type CsvEscapeStyle = 'double' | 'backslash';
+
+export type CsvLineEnding = 'LF' | 'CRLF' | 'CR';
+
+export interface CsvDialect {
+  delimiter: string;
+  quoteChar: string;
+  escapeStyle: CsvEscapeStyle;
+  hasHeaderRow: boolean;
+}
+
+export interface DetectedCsvDialect extends CsvDialect {
+  lineEnding: CsvLineEnding;
+}
+
+export type CsvEncodingSource = 'bom' | 'detected' | 'fallback' | 'manual';
+
+export interface CsvEncodingInfo {
+  encoding: string;
+  source: CsvEncodingSource;
+  hadBom: boolean;
+  // Bytes that could not be decoded and were replaced with U+FFFD
+  undecodableCount: number;
+}
+
+export type CsvRecordIssue = 'column_count' | 'unterminated_quote' | 'long_quoted_value' | 'stray_characters';
+
+export interface CsvRecordInfo {
+  // First and last physical line of the record (they differ for multi-line values)
+  lineNumber: number;
+  endLineNumber: number;
+  // Line where an unclosed or unusually long quoted value opened
+  quoteLineNumber?: number;
+  issues: CsvRecordIssue[];
+}
+
+export interface CsvRowDiagnostic {
+  // Index into CsvData.rows, or -1 when the header row itself is malformed
+  rowIndex: number;
+  lineNumber: number;
+  issues: CsvRecordIssue[];
+  message: string;
+  snippet: string;
+}
+
+export interface CsvParseProgress {
+  bytesRead: number;
+  totalBytes: number;
+  rowsParsed: number;
+}
+
+export interface CsvParseOptions {
+  // Sniffed from the start of the file when omitted
+  dialect?: CsvDialect;
+  // Detected from the file's bytes when omitted
+  encoding?: string;
+  fallbackEncodings?: string[];
+}
+
+export interface CsvParseRequest extends CsvParseOptions {
+  type: 'parse';
+  file: File;
+}
+
+export interface CsvParseResult {
+  data: CsvData;
+  dialect: DetectedCsvDialect;
+  encoding: CsvEncodingInfo;
+  diagnostics: CsvRowDiagnostic[];
+  // Decoded start of the file, used for the live format preview
+  sampleText: string;
+}
+
+export type CsvParseResponse =
+  | ({ type: 'progress' } & CsvParseProgress)
+  | ({ type: 'complete' } & CsvParseResult)
+  | { type: 'error'; message: string };
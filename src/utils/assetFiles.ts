@@ -0,0 +1,43 @@
+import { AssetFile } from '@/types/contentstack';
+
+// OS metadata and the placeholder entry SheetJS adds to archives it reads are never meant as assets
+const IGNORED_PATH_PATTERN = /(^|\/)(__MACOSX\/|\.DS_Store$|Thumbs\.db$|.?Sh33tJ5$)/;
+
+const normalizePath = (path: string) =>
+  path.trim().replace(/\\/g, '/').replace(/^(\.\/|\/)+/, '').toLowerCase();
+
+const getBaseName = (path: string) => path.slice(path.lastIndexOf('/') + 1);
+
+// Files picked from a folder input keep their path below the chosen folder
+export const getFolderAssetFiles = (files: FileList | File[]): AssetFile[] =>
+  Array.from(files)
+    .map(file => ({ path: file.webkitRelativePath || file.name, name: file.name, file }))
+    .filter(asset => !IGNORED_PATH_PATTERN.test(asset.path));
+
+// ZIP archives are read with the CFB reader bundled in SheetJS, which is only loaded when needed
+export const readZipAssetFiles = async (zip: Blob): Promise<AssetFile[]> => {
+  const XLSX = await import('xlsx');
+  const container = XLSX.CFB.read(new Uint8Array(await zip.arrayBuffer()), { type: 'array' });
+  const entries: { type: number; name: string; content?: Uint8Array }[] = container.FileIndex;
+
+  return entries
+    .map((entry, index) => ({ entry, path: String(container.FullPaths[index]).replace(/^Root Entry\//, '') }))
+    .filter(({ entry, path }) => entry.type === 2 && !path.endsWith('/') && !IGNORED_PATH_PATTERN.test(path))
+    .map(({ entry, path }) => ({ path, name: entry.name, file: new Blob([entry.content ?? new Uint8Array()]) }));
+};
+
+/**
+ * Finds the file a CSV value names. Values are compared case-insensitively
+ * with the file paths, so "hero.png", "images/hero.png" and ".\\images\\hero.png"
+ * all find "images/hero.png"; when only the file name matches, the first file
+ * with that name is used.
+ */
+export const findAssetFile = (files: AssetFile[], value: string): AssetFile | undefined => {
+  const wanted = normalizePath(value);
+  if (!wanted) return undefined;
+
+  return files.find(file => {
+    const path = normalizePath(file.path);
+    return path === wanted || path.endsWith(`/${wanted}`);
+  }) ?? files.find(file => normalizePath(file.name) === getBaseName(wanted));
+};
@@ -0,0 +1,200 @@
+import { AssetFile, ContentstackConfig } from '@/types/contentstack';
+
+// Uploaded assets are tagged with their content hash, so later runs can find them instead of uploading again
+export const CONTENT_HASH_TAG_PREFIX = 'sha256:';
+
+export interface UploadedAsset {
+  uid: string;
+  url?: string;
+  // Path of the local file or URL the asset was uploaded from
+  path: string;
+  // SHA-256 of the file content, hex encoded
+  hash: string;
+  // An existing asset with the same content was linked instead of uploading
+  reused?: boolean;
+}
+
+export interface AssetFolder {
+  uid: string;
+  name: string;
+  parentUid?: string;
+}
+
+export interface AssetUploadOptions {
+  folderUid?: string;
+  title?: string;
+  // Contentstack assets have no alt text field, so alt text is stored as the description
+  description?: string;
+}
+
+export type AssetApiConfig = Pick<ContentstackConfig, 'host' | 'apiKey' | 'managementToken'>;
+
+export const isAssetUrl = (value: string): boolean => /^https?:\/\//i.test(value.trim());
+
+const getContentHash = async (data: Blob): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', await data.arrayBuffer());
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+// "https://cdn.example.com/img/hero.png?w=800" is uploaded as "hero.png"
+const getUrlFileName = (url: string): string => {
+  try {
+    const segment = new URL(url).pathname.split('/').filter(Boolean).pop();
+    return segment ? decodeURIComponent(segment) : 'asset';
+  } catch {
+    return 'asset';
+  }
+};
+
+// Folder names with their parents, e.g. "Products / Shoes", sorted for display
+export const getFolderLabels = (folders: AssetFolder[]): { uid: string; label: string }[] => {
+  const byUid = new Map(folders.map(folder => [folder.uid, folder]));
+  const getLabel = (folder: AssetFolder, depth = 0): string => {
+    const parent = folder.parentUid ? byUid.get(folder.parentUid) : undefined;
+    return parent && depth < folders.length ? `${getLabel(parent, depth + 1)} / ${folder.name}` : folder.name;
+  };
+
+  return folders
+    .map(folder => ({ uid: folder.uid, label: getLabel(folder) }))
+    .sort((a, b) => a.label.localeCompare(b.label));
+};
+
+/**
+ * Uploads files through the Contentstack Assets API. Files are deduplicated
+ * by the SHA-256 of their content: identical content is uploaded once for
+ * the lifetime of the uploader, and an asset tagged with the same hash by an
+ * earlier run is linked instead of uploading a copy. Rows that share an image
+ * therefore link the same asset, with the title and description of its first
+ * upload. URLs are downloaded once each. Failed requests are not cached and
+ * throw; pass `fetchImpl` to run against a stand-in server.
+ */
+export class AssetUploader {
+  private uploads = new Map<string, Promise<UploadedAsset>>();
+  private downloads = new Map<string, Promise<AssetFile>>();
+  private hashes = new WeakMap<Blob, Promise<string>>();
+  private uploaded: UploadedAsset[] = [];
+
+  constructor(
+    private readonly config: AssetApiConfig,
+    private readonly fetchImpl: typeof fetch = (input, init) => fetch(input, init)
+  ) {}
+
+  async upload(file: AssetFile, options: AssetUploadOptions = {}): Promise<UploadedAsset> {
+    if (!this.hashes.has(file.file)) this.hashes.set(file.file, getContentHash(file.file));
+    const hash = await this.hashes.get(file.file);
+
+    if (!this.uploads.has(hash)) {
+      const upload = this.findByHash(hash, file.path).then(existing => existing ?? this.send(file, hash, options));
+      this.uploads.set(hash, upload.catch(error => {
+        this.uploads.delete(hash);
+        throw error;
+      }));
+    }
+    return this.uploads.get(hash);
+  }
+
+  // Downloads an HTTP(S) file so it can be uploaded; the same URL is only fetched once
+  download(url: string): Promise<AssetFile> {
+    const key = url.trim();
+    if (!this.downloads.has(key)) {
+      this.downloads.set(key, this.fetchFile(key).catch(error => {
+        this.downloads.delete(key);
+        throw error;
+      }));
+    }
+    return this.downloads.get(key);
+  }
+
+  async listFolders(): Promise<AssetFolder[]> {
+    const query = encodeURIComponent(JSON.stringify({ is_dir: true }));
+    const response = await this.fetchImpl(`${this.config.host}/v3/assets?include_folders=true&query=${query}`, {
+      method: 'GET',
+      headers: this.getHeaders()
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Error loading asset folders: ${errorText}`);
+    }
+
+    const result = await response.json();
+    return (result.assets ?? []).map((folder: { uid: string; name: string; parent_uid?: string | null }) => ({
+      uid: folder.uid,
+      name: folder.name,
+      parentUid: folder.parent_uid ?? undefined
+    }));
+  }
+
+  // Assets uploaded or reused since the last clear, in upload order
+  getUploadedAssets(): UploadedAsset[] {
+    return [...this.uploaded];
+  }
+
+  clear(): void {
+    this.uploads.clear();
+    this.downloads.clear();
+    this.uploaded = [];
+  }
+
+  // No Content-Type: the browser sets the multipart boundary itself
+  private getHeaders() {
+    return {
+      'api_key': this.config.apiKey,
+      'authorization': this.config.managementToken
+    };
+  }
+
+  private async fetchFile(url: string): Promise<AssetFile> {
+    const response = await this.fetchImpl(url, { method: 'GET' });
+    if (!response.ok) {
+      throw new Error(`Error downloading "${url}": HTTP ${response.status}`);
+    }
+    return { path: url, name: getUrlFileName(url), file: await response.blob() };
+  }
+
+  private async findByHash(hash: string, path: string): Promise<UploadedAsset | null> {
+    const query = encodeURIComponent(JSON.stringify({ tags: { $in: [`${CONTENT_HASH_TAG_PREFIX}${hash}`] } }));
+    const response = await this.fetchImpl(`${this.config.host}/v3/assets?query=${query}&limit=1`, {
+      method: 'GET',
+      headers: this.getHeaders()
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Error looking up existing assets: ${errorText}`);
+    }
+
+    const result = await response.json();
+    const existing = result.assets?.[0];
+    if (!existing) return null;
+
+    const asset = { uid: existing.uid, url: existing.url, path, hash, reused: true };
+    this.uploaded.push(asset);
+    return asset;
+  }
+
+  private async send(file: AssetFile, hash: string, options: AssetUploadOptions): Promise<UploadedAsset> {
+    const body = new FormData();
+    body.append('asset[upload]', file.file, file.name);
+    body.append('asset[tags]', `${CONTENT_HASH_TAG_PREFIX}${hash}`);
+    if (options.folderUid) body.append('asset[parent_uid]', options.folderUid);
+    if (options.title) body.append('asset[title]', options.title);
+    if (options.description) body.append('asset[description]', options.description);
+
+    const response = await this.fetchImpl(`${this.config.host}/v3/assets`, {
+      method: 'POST',
+      headers: this.getHeaders(),
+      body
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Error uploading asset "${file.path}": ${errorText}`);
+    }
+
+    const result = await response.json();
+    const asset = { uid: result.asset.uid, url: result.asset.url, path: file.path, hash };
+    this.uploaded.push(asset);
+    return asset;
+  }
+}
@@ -0,0 +1,151 @@
+import { CsvData } from '@/types/contentstack';
+import { getColumns } from '@/utils/csvDataUtils';
+
+export type InferredColumnType = 'empty' | 'text' | 'number' | 'boolean' | 'date' | 'url' | 'email' | 'json';
+
+export interface ColumnProfile {
+  columnId: string;
+  inferredType: InferredColumnType;
+  rowCount: number;
+  filledCount: number;
+  fillRate: number;
+  distinctCount: number;
+  minLength: number;
+  maxLength: number;
+  topValues: { value: string; count: number }[];
+  // How many filled cells look like each type, used to explain type conflicts
+  typeCounts: Record<InferredColumnType, number>;
+  // Numeric cells holding 0 or 1, which the importer also accepts as booleans
+  binaryCount: number;
+}
+
+// Share of filled cells that must agree before a column is given a type other than text
+const TYPE_THRESHOLD = 0.9;
+const TOP_VALUE_COUNT = 5;
+
+const NUMBER_PATTERN = /^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/;
+const BOOLEAN_VALUES = new Set(['true', 'false']);
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}([T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+const URL_PATTERN = /^(https?:\/\/|\/)[^\s]+$/i;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const EMPTY_TYPE_COUNTS = (): Record<InferredColumnType, number> => ({
+  empty: 0, text: 0, number: 0, boolean: 0, date: 0, url: 0, email: 0, json: 0
+});
+
+const isJsonValue = (value: string): boolean => {
+  const first = value[0];
+  if (first !== '{' && first !== '[') return false;
+  try {
+    JSON.parse(value);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const inferValueType = (value: string): InferredColumnType => {
+  const trimmed = value.trim();
+  if (!trimmed) return 'empty';
+  if (NUMBER_PATTERN.test(trimmed)) return 'number';
+  if (BOOLEAN_VALUES.has(trimmed.toLowerCase())) return 'boolean';
+  if (ISO_DATE_PATTERN.test(trimmed) && !isNaN(Date.parse(trimmed))) return 'date';
+  if (EMAIL_PATTERN.test(trimmed)) return 'email';
+  if (URL_PATTERN.test(trimmed)) return 'url';
+  if (isJsonValue(trimmed)) return 'json';
+  return 'text';
+};
+
+export const profileColumn = (data: CsvData, columnId: string): ColumnProfile => {
+  const typeCounts = EMPTY_TYPE_COUNTS();
+  const valueCounts = new Map<string, number>();
+  let minLength = Infinity;
+  let maxLength = 0;
+  let binaryCount = 0;
+
+  data.rows.forEach((row, rowIndex) => {
+    const value = row[columnId] ?? '';
+    const cellType = data.cellTypes?.[rowIndex]?.[columnId];
+    // Typed sources already know what the cell is, so only plain strings are guessed at
+    const type = !value.trim() ? 'empty' : cellType && cellType !== 'string' ? cellType : inferValueType(value);
+
+    typeCounts[type]++;
+    if (type === 'empty') return;
+    if (type === 'number' && (value.trim() === '0' || value.trim() === '1')) binaryCount++;
+
+    valueCounts.set(value, (valueCounts.get(value) || 0) + 1);
+    minLength = Math.min(minLength, value.length);
+    maxLength = Math.max(maxLength, value.length);
+  });
+
+  const filledCount = data.rows.length - typeCounts.empty;
+  let inferredType: InferredColumnType = filledCount === 0 ? 'empty' : 'text';
+  (Object.keys(typeCounts) as InferredColumnType[]).forEach(type => {
+    if (type !== 'empty' && type !== 'text' && filledCount > 0 && typeCounts[type] / filledCount >= TYPE_THRESHOLD) {
+      inferredType = type;
+    }
+  });
+
+  const topValues = [...valueCounts.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, TOP_VALUE_COUNT)
+    .map(([value, count]) => ({ value, count }));
+
+  return {
+    columnId,
+    inferredType,
+    rowCount: data.rows.length,
+    filledCount,
+    fillRate: data.rows.length > 0 ? filledCount / data.rows.length : 0,
+    distinctCount: valueCounts.size,
+    minLength: filledCount > 0 ? minLength : 0,
+    maxLength,
+    topValues,
+    typeCounts,
+    binaryCount
+  };
+};
+
+export const profileColumns = (data: CsvData): Record<string, ColumnProfile> =>
+  Object.fromEntries(getColumns(data).map(column => [column.id, profileColumn(data, column.id)]));
+
+// Column types each Contentstack data_type can be filled from; types not listed accept any column
+const COMPATIBLE_TYPES: Record<string, InferredColumnType[]> = {
+  number: ['number'],
+  boolean: ['boolean'],
+  isodate: ['date'],
+  link: ['url']
+};
+
+const TYPE_LABELS: Record<InferredColumnType, string> = {
+  empty: 'empty',
+  text: 'text',
+  number: 'numbers',
+  boolean: 'true/false values',
+  date: 'ISO dates',
+  url: 'URLs',
+  email: 'email addresses',
+  json: 'JSON'
+};
+
+export const getInferredTypeLabel = (type: InferredColumnType): string => TYPE_LABELS[type];
+
+/**
+ * Describes why a column's values are unlikely to fit a field of the given
+ * data_type, or returns null when they fit (or the field accepts anything).
+ */
+export const getTypeConflict = (profile: ColumnProfile, dataType: string): string | null => {
+  const compatible = COMPATIBLE_TYPES[dataType];
+  if (!compatible || profile.filledCount === 0 || compatible.includes(profile.inferredType)) return null;
+
+  const matching = compatible.reduce((sum, type) => sum + profile.typeCounts[type], 0) +
+    (dataType === 'boolean' ? profile.binaryCount : 0);
+  if (matching / profile.filledCount >= TYPE_THRESHOLD) return null;
+
+  const percent = Math.round((matching / profile.filledCount) * 100);
+  return `Column looks like ${TYPE_LABELS[profile.inferredType]}; only ${percent}% of its values fit a ${dataType} field`;
+};
+
+// True when the field only accepts one kind of value and the column is made of exactly that kind
+export const hasTypeAffinity = (profile: ColumnProfile, dataType: string): boolean =>
+  profile.filledCount > 0 && (COMPATIBLE_TYPES[dataType]?.includes(profile.inferredType) ?? false);
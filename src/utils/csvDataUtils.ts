@@ -0,0 +1,68 @@
+import { CsvColumn, CsvData, FieldMapping } from '@/types/contentstack';
+
+/**
+ * Turns raw header names into columns with unique ids. Blank headers become
+ * `column_N` (N is the 1-based position) and repeated headers get a numeric
+ * suffix (`Name`, `Name_2`), skipping names that already exist in the file.
+ */
+export const buildColumns = (rawHeaders: string[]): CsvColumn[] => {
+  const existing = new Set(rawHeaders.map(header => header.trim()).filter(Boolean));
+  const assigned = new Set<string>();
+
+  return rawHeaders.map((sourceHeader, index) => {
+    const trimmed = sourceHeader.trim();
+    let header = trimmed || `column_${index + 1}`;
+
+    if (assigned.has(header) || (!trimmed && existing.has(header))) {
+      const base = header;
+      let suffix = 2;
+      while (assigned.has(`${base}_${suffix}`) || existing.has(`${base}_${suffix}`)) {
+        suffix++;
+      }
+      header = `${base}_${suffix}`;
+    }
+
+    assigned.add(header);
+    return { id: header, header, sourceHeader };
+  });
+};
+
+export const getColumns = (data: CsvData): CsvColumn[] =>
+  data.columns || data.headers.map(header => ({ id: header, header, sourceHeader: header }));
+
+export const isAutoRenamed = (column: CsvColumn): boolean => column.id !== column.sourceHeader.trim();
+
+export const getMappingColumnId = (mapping: FieldMapping): string => mapping.columnId ?? mapping.csvColumn;
+
+export const renameColumn = (data: CsvData, columnId: string, header: string): CsvData => {
+  const columns = getColumns(data).map(column => column.id === columnId ? { ...column, header } : column);
+  return { ...data, columns, headers: columns.map(column => column.header) };
+};
+
+// Drops rows by index and keeps the parallel per-row arrays in step
+export const removeRows = (data: CsvData, rowIndexes: Iterable<number>): CsvData => {
+  const excluded = new Set(rowIndexes);
+  if (excluded.size === 0) return data;
+
+  const keep = (_: unknown, index: number) => !excluded.has(index);
+  return {
+    ...data,
+    rows: data.rows.filter(keep),
+    cellTypes: data.cellTypes?.filter(keep),
+    rowSources: data.rowSources?.filter(keep)
+  };
+};
+
+// Edited values are plain text, so any original cell type no longer applies
+export const updateCell = (data: CsvData, rowIndex: number, columnId: string, value: string): CsvData => {
+  const rows = [...data.rows];
+  rows[rowIndex] = { ...rows[rowIndex], [columnId]: value };
+
+  let cellTypes = data.cellTypes;
+  if (cellTypes?.[rowIndex]) {
+    cellTypes = [...cellTypes];
+    cellTypes[rowIndex] = { ...cellTypes[rowIndex], [columnId]: 'string' };
+  }
+
+  return { ...data, rows, cellTypes };
+};
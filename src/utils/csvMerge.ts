@@ -0,0 +1,175 @@
+import { CsvCellType, CsvColumn, CsvData, CsvRowSource } from '@/types/contentstack';
+import { getColumns } from '@/utils/csvDataUtils';
+
+export interface CsvSource {
+  name: string;
+  data: CsvData;
+}
+
+export interface CsvJoinResult {
+  data: CsvData;
+  // Per joined file: primary rows that found no matching key
+  unmatchedRows: Record<string, number>;
+  // Per joined file: key values that appear more than once (only the first row is used)
+  duplicateKeys: Record<string, string[]>;
+}
+
+const getRowSources = (source: CsvSource): CsvRowSource[] =>
+  source.data.rowSources || source.data.rows.map((_, index) => ({ file: source.name, line: index + 1 }));
+
+const hasCellTypes = (sources: CsvSource[]) => sources.some(source => source.data.cellTypes);
+
+/**
+ * Lists how each file's headers differ from the first file's. Files are
+ * compared by header name, so column order does not matter.
+ */
+export const findHeaderMismatches = (sources: CsvSource[]): string[] => {
+  if (sources.length < 2) return [];
+
+  const expected = sources[0].data.headers;
+  return sources.slice(1).flatMap(source => {
+    const missing = expected.filter(header => !source.data.headers.includes(header));
+    const extra = source.data.headers.filter(header => !expected.includes(header));
+    if (missing.length === 0 && extra.length === 0) return [];
+
+    const parts = [];
+    if (missing.length > 0) parts.push(`missing ${missing.join(', ')}`);
+    if (extra.length > 0) parts.push(`extra ${extra.join(', ')}`);
+    return [`"${source.name}" has different columns than "${sources[0].name}": ${parts.join('; ')}`];
+  });
+};
+
+// Headers that every file has, i.e. the columns a join key can be chosen from
+export const getSharedHeaders = (sources: CsvSource[]): string[] =>
+  sources.length === 0
+    ? []
+    : sources[0].data.headers.filter(header => sources.every(source => source.data.headers.includes(header)));
+
+/**
+ * Stacks files with the same headers into one dataset. Rows keep the first
+ * file's column ids, matched by header name.
+ */
+export const appendCsvData = (sources: CsvSource[]): CsvData => {
+  const mismatches = findHeaderMismatches(sources);
+  if (mismatches.length > 0) {
+    throw new Error(mismatches.join('\n'));
+  }
+
+  const columns = getColumns(sources[0].data);
+  const withTypes = hasCellTypes(sources);
+  const rows: Record<string, string>[] = [];
+  const cellTypes: Record<string, CsvCellType>[] = [];
+  const rowSources: CsvRowSource[] = [];
+
+  sources.forEach(source => {
+    const sourceIds = new Map(getColumns(source.data).map(column => [column.header, column.id]));
+
+    source.data.rows.forEach((sourceRow, rowIndex) => {
+      const row: Record<string, string> = {};
+      const types: Record<string, CsvCellType> = {};
+      columns.forEach(column => {
+        const sourceId = sourceIds.get(column.header);
+        row[column.id] = sourceRow[sourceId] ?? '';
+        types[column.id] = source.data.cellTypes?.[rowIndex]?.[sourceId] ?? 'string';
+      });
+      rows.push(row);
+      cellTypes.push(types);
+    });
+
+    rowSources.push(...getRowSources(source));
+  });
+
+  return {
+    headers: columns.map(column => column.header),
+    columns,
+    rows,
+    cellTypes: withTypes ? cellTypes : undefined,
+    rowSources
+  };
+};
+
+const uniqueName = (base: string, taken: Set<string>): string => {
+  if (!taken.has(base)) return base;
+  let suffix = 2;
+  while (taken.has(`${base}_${suffix}`)) suffix++;
+  return `${base}_${suffix}`;
+};
+
+/**
+ * Left-joins supplementary files onto the primary file by the value of
+ * `keyHeader`. Every primary row is kept; columns from the other files are
+ * added (renamed with a suffix if the name is taken) and left empty when no
+ * row shares the key. Row sources always point at the primary file.
+ */
+export const joinCsvData = (primary: CsvSource, others: CsvSource[], keyHeader: string): CsvJoinResult => {
+  const primaryColumns = getColumns(primary.data);
+  const primaryKey = primaryColumns.find(column => column.header === keyHeader);
+  if (!primaryKey) {
+    throw new Error(`"${primary.name}" has no column named "${keyHeader}"`);
+  }
+
+  const withTypes = hasCellTypes([primary, ...others]);
+  const columns: CsvColumn[] = [...primaryColumns];
+  const taken = new Set(primaryColumns.flatMap(column => [column.id, column.header]));
+  const rows = primary.data.rows.map(row => ({ ...row }));
+  const cellTypes = primary.data.rows.map((_, rowIndex) => ({ ...primary.data.cellTypes?.[rowIndex] }));
+  const unmatchedRows: Record<string, number> = {};
+  const duplicateKeys: Record<string, string[]> = {};
+
+  others.forEach(source => {
+    const sourceColumns = getColumns(source.data);
+    const sourceKey = sourceColumns.find(column => column.header === keyHeader);
+    if (!sourceKey) {
+      throw new Error(`"${source.name}" has no column named "${keyHeader}"`);
+    }
+
+    const rowsByKey = new Map<string, number>();
+    const duplicates = new Set<string>();
+    source.data.rows.forEach((row, rowIndex) => {
+      const key = (row[sourceKey.id] ?? '').trim();
+      if (!key) return;
+      if (rowsByKey.has(key)) {
+        duplicates.add(key);
+      } else {
+        rowsByKey.set(key, rowIndex);
+      }
+    });
+
+    const added = sourceColumns
+      .filter(column => column.id !== sourceKey.id)
+      .map(column => {
+        const name = uniqueName(column.header, taken);
+        taken.add(name);
+        return { source: column, target: { id: name, header: name, sourceHeader: column.sourceHeader } };
+      });
+    columns.push(...added.map(({ target }) => target));
+
+    let unmatched = 0;
+    rows.forEach((row, rowIndex) => {
+      const match = rowsByKey.get((row[primaryKey.id] ?? '').trim());
+      if (match === undefined) unmatched++;
+
+      added.forEach(({ source: sourceColumn, target }) => {
+        row[target.id] = match === undefined ? '' : source.data.rows[match][sourceColumn.id] ?? '';
+        cellTypes[rowIndex][target.id] = match === undefined
+          ? 'string'
+          : source.data.cellTypes?.[match]?.[sourceColumn.id] ?? 'string';
+      });
+    });
+
+    unmatchedRows[source.name] = unmatched;
+    duplicateKeys[source.name] = [...duplicates];
+  });
+
+  return {
+    data: {
+      headers: columns.map(column => column.header),
+      columns,
+      rows,
+      cellTypes: withTypes ? cellTypes : undefined,
+      rowSources: getRowSources(primary)
+    },
+    unmatchedRows,
+    duplicateKeys
+  };
+};
@@ -0,0 +1,383 @@
+import { CsvColumn, CsvData, CsvRowSource } from '@/types/contentstack';
+import { buildColumns } from '@/utils/csvDataUtils';
+import {
+  CsvDialect,
+  CsvLineEnding,
+  CsvRecordInfo,
+  CsvRecordIssue,
+  CsvRowDiagnostic,
+  DetectedCsvDialect
+} from '@/types/csvParser';
+
+export const DEFAULT_DIALECT: CsvDialect = {
+  delimiter: ',',
+  quoteChar: '"',
+  escapeStyle: 'double',
+  hasHeaderRow: true
+};
+
+export const CANDIDATE_DELIMITERS = [',', ';', '\t', '|'];
+export const CANDIDATE_QUOTE_CHARS = ['"', "'"];
+
+// Number of leading lines inspected when sniffing the dialect
+const SNIFF_LINE_COUNT = 20;
+
+const SNIPPET_LENGTH = 120;
+
+// A quoted value spanning more lines than this is more likely an unbalanced quote than a real multi-line value
+const MAX_QUOTED_VALUE_LINES = 20;
+
+type ParserState = 'fieldStart' | 'unquoted' | 'quoted' | 'quoteInQuoted' | 'escapeInQuoted';
+
+export type CsvRecordHandler = (fields: string[], info: CsvRecordInfo) => void;
+
+/**
+ * Incremental CSV tokenizer. Text can be pushed in arbitrary chunks - quoted
+ * fields and CRLF pairs may straddle chunk boundaries - and every complete
+ * record is handed to `onRecord` together with the lines it spans and any
+ * quoting problems found in it.
+ */
+export class CsvStreamParser {
+  private state: ParserState = 'fieldStart';
+  private field = '';
+  private fields: string[] = [];
+  private line = 1;
+  private recordLine = 1;
+  private previousChar = '';
+  // Line where the current quoted value opened, and where a suspicious one did
+  private quoteLine = 1;
+  private problemQuoteLine: number | undefined;
+  private issues = new Set<CsvRecordIssue>();
+  private readonly dialect: CsvDialect;
+
+  constructor(private readonly onRecord: CsvRecordHandler, dialect: Partial<CsvDialect> = {}) {
+    this.dialect = { ...DEFAULT_DIALECT, ...dialect };
+  }
+
+  push(chunk: string): void {
+    const { delimiter, quoteChar, escapeStyle } = this.dialect;
+
+    for (let i = 0; i < chunk.length; i++) {
+      const char = chunk[i];
+      const isLineBreak = char === '\n' || char === '\r';
+      const startsNewLine = char === '\r' || (char === '\n' && this.previousChar !== '\r');
+      this.previousChar = char;
+
+      if (this.state === 'quoted') {
+        if (escapeStyle === 'backslash' && char === '\\') {
+          this.state = 'escapeInQuoted';
+        } else if (char === quoteChar) {
+          this.state = 'quoteInQuoted';
+          if (this.line - this.quoteLine >= MAX_QUOTED_VALUE_LINES) {
+            this.issues.add('long_quoted_value');
+            this.problemQuoteLine = this.problemQuoteLine ?? this.quoteLine;
+          }
+        } else {
+          this.field += char;
+        }
+      } else if (this.state === 'escapeInQuoted') {
+        this.field += char;
+        this.state = 'quoted';
+      } else if (this.state === 'quoteInQuoted' && char === quoteChar && escapeStyle === 'double') {
+        // Escaped quote ("") inside a quoted field
+        this.field += quoteChar;
+        this.state = 'quoted';
+      } else if (char === delimiter) {
+        this.endField();
+      } else if (isLineBreak) {
+        // A \n directly after \r closes an empty record, which endRecord ignores
+        this.endRecord();
+      } else if (char === quoteChar && this.state === 'fieldStart') {
+        this.quoteLine = this.line;
+        this.state = 'quoted';
+      } else if (char === quoteChar) {
+        // A quote in the middle of a value (27" screen) or right after a closing quote is kept as text,
+        // so it cannot open a quoted value that swallows the following records
+        this.issues.add('stray_characters');
+        this.field += char;
+        this.state = 'unquoted';
+      } else {
+        if (this.state === 'quoteInQuoted') {
+          // Text between a closing quote and the next delimiter
+          this.issues.add('stray_characters');
+        }
+        this.field += char;
+        this.state = 'unquoted';
+      }
+
+      if (startsNewLine) {
+        this.line++;
+        if (this.state === 'fieldStart' && this.fields.length === 0) {
+          this.recordLine = this.line;
+        }
+      }
+    }
+  }
+
+  finish(): void {
+    if (this.state === 'quoted' || this.state === 'escapeInQuoted') {
+      this.issues.add('unterminated_quote');
+      this.problemQuoteLine = this.problemQuoteLine ?? this.quoteLine;
+    }
+    // A line break at the very end of the input has already been counted
+    const endsWithLineBreak = this.previousChar === '\n' || this.previousChar === '\r';
+    this.endRecord(endsWithLineBreak ? this.line - 1 : this.line);
+  }
+
+  private endField(): void {
+    this.fields.push(this.field);
+    this.field = '';
+    this.state = 'fieldStart';
+  }
+
+  private endRecord(endLineNumber = this.line): void {
+    this.endField();
+    const fields = this.fields;
+    const issues = [...this.issues];
+    const quoteLineNumber = this.problemQuoteLine;
+    this.fields = [];
+    this.issues.clear();
+    this.problemQuoteLine = undefined;
+
+    // Blank lines never produce a record
+    if (fields.length > 1 || fields[0].trim() !== '') {
+      this.onRecord(fields, {
+        lineNumber: this.recordLine,
+        endLineNumber: Math.max(endLineNumber, this.recordLine),
+        quoteLineNumber,
+        issues
+      });
+    }
+    this.recordLine = this.line;
+  }
+}
+
+const describeIssues = (issues: CsvRecordIssue[], info: CsvRecordInfo, expected: number, found: number): string => {
+  const messages = issues.map(issue => {
+    switch (issue) {
+      case 'column_count':
+        return `Expected ${expected} values but found ${found}`;
+      case 'unterminated_quote':
+        return `Quoted value opened on line ${info.quoteLineNumber ?? info.lineNumber} is never closed; lines ${info.lineNumber}-${info.endLineNumber} were read as a single row`;
+      case 'long_quoted_value':
+        return `Quoted value opened on line ${info.quoteLineNumber ?? info.lineNumber} runs over more than ${MAX_QUOTED_VALUE_LINES} lines; check for an unbalanced quote`;
+      default:
+        return 'Unexpected characters around a quoted value';
+    }
+  });
+  return messages.join('. ');
+};
+
+const buildSnippet = (fields: string[], delimiter: string): string => {
+  const text = fields.join(delimiter).replace(/\s+/g, ' ');
+  return text.length > SNIPPET_LENGTH ? `${text.substring(0, SNIPPET_LENGTH)}...` : text;
+};
+
+/**
+ * Collects parser records into the CsvData shape used by the rest of the app:
+ * the first record supplies the headers (or generated `column_N` names when
+ * the file has no header row), every following record becomes a row keyed by
+ * column id. Rows that are padded, truncated or badly quoted are reported
+ * as diagnostics instead of being fixed up silently.
+ */
+export const createCsvDataCollector = (hasHeaderRow = true, delimiter = DEFAULT_DIALECT.delimiter, sourceName = '') => {
+  let columns: CsvColumn[] | null = null;
+  const rows: Record<string, string>[] = [];
+  const rowSources: CsvRowSource[] = [];
+  const diagnostics: CsvRowDiagnostic[] = [];
+
+  const onRecord: CsvRecordHandler = (fields, info) => {
+    // Cells are kept as written; trimming is a per-mapping choice made at import time
+    const values = fields;
+    let rowIndex = rows.length;
+
+    if (!columns) {
+      columns = buildColumns(hasHeaderRow ? values : values.map(() => ''));
+      if (hasHeaderRow) rowIndex = -1;
+    }
+
+    const issues = [...info.issues];
+    if (rowIndex !== -1 && values.length !== columns.length) {
+      issues.push('column_count');
+    }
+
+    if (issues.length > 0) {
+      diagnostics.push({
+        rowIndex,
+        lineNumber: info.lineNumber,
+        issues,
+        message: describeIssues(issues, info, columns.length, values.length),
+        snippet: buildSnippet(fields, delimiter)
+      });
+    }
+
+    if (rowIndex === -1) return;
+
+    const row: Record<string, string> = {};
+    columns.forEach((column, index) => {
+      row[column.id] = values[index] || '';
+    });
+    rows.push(row);
+    rowSources.push({ file: sourceName, line: info.lineNumber });
+  };
+
+  const getData = (): CsvData => ({
+    headers: (columns || []).map(column => column.header),
+    rows,
+    columns: columns || [],
+    rowSources
+  });
+
+  return { onRecord, getData, getDiagnostics: () => diagnostics, getRowCount: () => rows.length };
+};
+
+export const parseCsvText = (csvText: string, dialect: Partial<CsvDialect> = {}): CsvData => {
+  const collector = createCsvDataCollector(
+    dialect.hasHeaderRow ?? DEFAULT_DIALECT.hasHeaderRow,
+    dialect.delimiter ?? DEFAULT_DIALECT.delimiter
+  );
+  const parser = new CsvStreamParser(collector.onRecord, dialect);
+  parser.push(csvText);
+  parser.finish();
+  return collector.getData();
+};
+
+const detectLineEnding = (sample: string): CsvLineEnding => {
+  const crlf = (sample.match(/\r\n/g) || []).length;
+  const lf = (sample.match(/\n/g) || []).length - crlf;
+  const cr = (sample.match(/\r/g) || []).length - crlf;
+
+  if (crlf >= lf && crlf >= cr && crlf > 0) return 'CRLF';
+  if (cr > lf) return 'CR';
+  return 'LF';
+};
+
+const detectQuoteChar = (sample: string): string => {
+  // Count quote characters that open a field, i.e. follow a line start or a candidate delimiter
+  const countOpeningQuotes = (quoteChar: string) =>
+    (sample.match(new RegExp(`(^|[\\r\\n,;\\t|])[ ]*${quoteChar}`, 'g')) || []).length;
+
+  const [bestQuote] = [...CANDIDATE_QUOTE_CHARS].sort((a, b) => countOpeningQuotes(b) - countOpeningQuotes(a));
+  return countOpeningQuotes(bestQuote) > 0 ? bestQuote : DEFAULT_DIALECT.quoteChar;
+};
+
+const detectEscapeStyle = (sample: string, quoteChar: string) => {
+  const backslashEscapes = sample.split(`\\${quoteChar}`).length - 1;
+  const doubledQuotes = sample.split(quoteChar + quoteChar).length - 1;
+  return backslashEscapes > doubledQuotes ? 'backslash' : 'double';
+};
+
+// Splits the sample into records without breaking inside quoted values
+const splitSampleLines = (sample: string, quoteChar: string): string[] => {
+  const lines: string[] = [];
+  let current = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < sample.length && lines.length < SNIFF_LINE_COUNT; i++) {
+    const char = sample[i];
+    if (char === quoteChar) {
+      inQuotes = !inQuotes;
+    }
+    if ((char === '\n' || char === '\r') && !inQuotes) {
+      if (current.trim()) lines.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+
+  // The trailing line may be cut off mid-record, so it only counts when nothing else is available
+  if (current.trim() && lines.length === 0) {
+    lines.push(current);
+  }
+  return lines;
+};
+
+const countOutsideQuotes = (line: string, delimiter: string, quoteChar: string): number => {
+  let count = 0;
+  let inQuotes = false;
+  for (const char of line) {
+    if (char === quoteChar) inQuotes = !inQuotes;
+    else if (char === delimiter && !inQuotes) count++;
+  }
+  return count;
+};
+
+const detectDelimiter = (lines: string[], quoteChar: string): string => {
+  let bestDelimiter = DEFAULT_DIALECT.delimiter;
+  let bestConsistency = 0;
+  let bestCount = 0;
+
+  CANDIDATE_DELIMITERS.forEach(delimiter => {
+    const counts = lines.map(line => countOutsideQuotes(line, delimiter, quoteChar));
+    const frequency = new Map<number, number>();
+    counts.forEach(count => frequency.set(count, (frequency.get(count) || 0) + 1));
+
+    // The most common per-line count is the likely column separator count
+    let modeCount = 0;
+    let modeFrequency = 0;
+    frequency.forEach((occurrences, count) => {
+      if (count > 0 && (occurrences > modeFrequency || (occurrences === modeFrequency && count > modeCount))) {
+        modeCount = count;
+        modeFrequency = occurrences;
+      }
+    });
+
+    if (modeCount === 0) return;
+
+    const consistency = modeFrequency / lines.length;
+    if (consistency > bestConsistency || (consistency === bestConsistency && modeCount > bestCount)) {
+      bestDelimiter = delimiter;
+      bestConsistency = consistency;
+      bestCount = modeCount;
+    }
+  });
+
+  return bestDelimiter;
+};
+
+const looksLikeData = (value: string) =>
+  /^-?\d+([.,]\d+)?$/.test(value) || /^\d{4}-\d{2}-\d{2}/.test(value) || /^(true|false)$/i.test(value);
+
+const detectHeaderRow = (sample: string, dialect: CsvDialect): boolean => {
+  const records: string[][] = [];
+  const parser = new CsvStreamParser(fields => {
+    if (records.length < 2) records.push(fields.map(value => value.trim()));
+  }, dialect);
+  parser.push(sample);
+  parser.finish();
+
+  if (records.length === 0) return true;
+
+  // Headers are labels; a first row holding numbers, dates or booleans is data
+  return !records[0].some(value => value !== '' && looksLikeData(value));
+};
+
+/**
+ * Guesses the dialect of a CSV export from the first lines of the file.
+ * Only comma, semicolon, tab and pipe delimiters are considered; the result is
+ * a starting point that users can override in the upload step.
+ */
+export const sniffDialect = (sample: string): DetectedCsvDialect => {
+  const quoteChar = detectQuoteChar(sample);
+  const lines = splitSampleLines(sample, quoteChar);
+  const delimiter = lines.length > 0 ? detectDelimiter(lines, quoteChar) : DEFAULT_DIALECT.delimiter;
+  const escapeStyle = detectEscapeStyle(sample, quoteChar);
+  const dialect: CsvDialect = { delimiter, quoteChar, escapeStyle, hasHeaderRow: true };
+
+  return {
+    ...dialect,
+    hasHeaderRow: detectHeaderRow(sample, dialect),
+    lineEnding: detectLineEnding(sample)
+  };
+};
+
+export const getDelimiterLabel = (delimiter: string): string => {
+  switch (delimiter) {
+    case ',': return 'Comma (,)';
+    case ';': return 'Semicolon (;)';
+    case '\t': return 'Tab';
+    case '|': return 'Pipe (|)';
+    default: return `"${delimiter}"`;
+  }
+};
@@ -0,0 +1,152 @@
+import { CsvEncodingSource } from '@/types/csvParser';
+
+export interface EncodingOption {
+  value: string;
+  label: string;
+}
+
+// Labels understood by TextDecoder in every supported browser
+export const ENCODING_OPTIONS: EncodingOption[] = [
+  { value: 'utf-8', label: 'UTF-8' },
+  { value: 'utf-16le', label: 'UTF-16 LE' },
+  { value: 'utf-16be', label: 'UTF-16 BE' },
+  { value: 'windows-1252', label: 'Windows-1252 (Western European)' },
+  { value: 'iso-8859-15', label: 'ISO-8859-15 (Latin-9)' },
+  { value: 'windows-1250', label: 'Windows-1250 (Central European)' },
+  { value: 'windows-1251', label: 'Windows-1251 (Cyrillic)' },
+  { value: 'shift_jis', label: 'Shift_JIS (Japanese)' },
+  { value: 'gbk', label: 'GBK (Simplified Chinese)' }
+];
+
+export const DEFAULT_FALLBACK_ENCODINGS = ['windows-1252'];
+
+const REPLACEMENT_CHAR = '\uFFFD';
+
+// How many leading bytes are inspected for UTF-16 and UTF-8 detection
+const DETECTION_SAMPLE_SIZE = 64 * 1024;
+
+export interface EncodingDetection {
+  encoding: string;
+  source: CsvEncodingSource;
+  bomLength: number;
+}
+
+export const getEncodingLabel = (encoding: string): string =>
+  ENCODING_OPTIONS.find(option => option.value === encoding)?.label || encoding;
+
+const detectBom = (bytes: Uint8Array): { encoding: string; length: number } | null => {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return { encoding: 'utf-8', length: 3 };
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return { encoding: 'utf-16le', length: 2 };
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return { encoding: 'utf-16be', length: 2 };
+  return null;
+};
+
+// Mostly-ASCII UTF-16 text has a zero byte in every other position
+const detectUtf16WithoutBom = (bytes: Uint8Array): string | null => {
+  const length = Math.min(bytes.length, DETECTION_SAMPLE_SIZE) & ~1;
+  if (length < 4) return null;
+
+  let evenZeros = 0;
+  let oddZeros = 0;
+  for (let i = 0; i < length; i += 2) {
+    if (bytes[i] === 0) evenZeros++;
+    if (bytes[i + 1] === 0) oddZeros++;
+  }
+
+  const pairs = length / 2;
+  if (oddZeros / pairs > 0.3 && evenZeros / pairs < 0.05) return 'utf-16le';
+  if (evenZeros / pairs > 0.3 && oddZeros / pairs < 0.05) return 'utf-16be';
+  return null;
+};
+
+const decodesCleanly = (bytes: Uint8Array, encoding: string): boolean => {
+  try {
+    // stream: true tolerates a multi-byte sequence cut off at the end of the sample
+    new TextDecoder(encoding, { fatal: true }).decode(bytes.subarray(0, DETECTION_SAMPLE_SIZE), { stream: true });
+    return true;
+  } catch (error) {
+    return false;
+  }
+};
+
+/**
+ * Works out which encoding the file starts in. A byte order mark always wins,
+ * then UTF-16 and UTF-8 are recognised from the byte patterns, and otherwise
+ * the first fallback encoding that decodes the sample without errors is used.
+ */
+export const detectEncoding = (bytes: Uint8Array, fallbackEncodings: string[] = DEFAULT_FALLBACK_ENCODINGS): EncodingDetection => {
+  const bom = detectBom(bytes);
+  if (bom) {
+    return { encoding: bom.encoding, source: 'bom', bomLength: bom.length };
+  }
+
+  const utf16 = detectUtf16WithoutBom(bytes);
+  if (utf16) {
+    return { encoding: utf16, source: 'detected', bomLength: 0 };
+  }
+
+  if (decodesCleanly(bytes, 'utf-8')) {
+    return { encoding: 'utf-8', source: 'detected', bomLength: 0 };
+  }
+
+  const fallback = fallbackEncodings.find(encoding => decodesCleanly(bytes, encoding));
+  return {
+    encoding: fallback || fallbackEncodings[0] || 'utf-8',
+    source: 'fallback',
+    bomLength: 0
+  };
+};
+
+export const countUndecodableCharacters = (text: string): number => {
+  let count = 0;
+  let index = text.indexOf(REPLACEMENT_CHAR);
+  while (index !== -1) {
+    count++;
+    index = text.indexOf(REPLACEMENT_CHAR, index + 1);
+  }
+  return count;
+};
+
+// How U+FFFD itself is written in encodings that can represent it
+const REPLACEMENT_CHAR_BYTES: Record<string, number[]> = {
+  'utf-8': [0xef, 0xbf, 0xbd],
+  'utf-16le': [0xfd, 0xff],
+  'utf-16be': [0xff, 0xfd],
+  gbk: [0x84, 0x31, 0xa4, 0x37]
+};
+
+/**
+ * Counts the U+FFFD characters a file already contains, so only the ones the
+ * decoder put in are reported as undecodable. Fed the file's bytes chunk by
+ * chunk from the start; UTF-16 matches only count on code unit boundaries.
+ */
+export const createLiteralReplacementCounter = (encoding: string) => {
+  const pattern = REPLACEMENT_CHAR_BYTES[encoding];
+  const step = encoding.startsWith('utf-16') ? 2 : 1;
+  // The last bytes of the previous chunk, in case a sequence is split across chunks
+  let tail = new Uint8Array(0);
+  let tailOffset = 0;
+  let count = 0;
+
+  const push = (bytes: Uint8Array) => {
+    if (!pattern) return;
+
+    const data = new Uint8Array(tail.length + bytes.length);
+    data.set(tail);
+    data.set(bytes, tail.length);
+
+    for (let i = 0; i + pattern.length <= data.length; i++) {
+      if (data[i] !== pattern[0] || (tailOffset + i) % step !== 0) continue;
+      if (pattern.every((byte, j) => data[i + j] === byte)) count++;
+    }
+
+    const keep = Math.min(pattern.length - 1, data.length);
+    tailOffset += data.length - keep;
+    tail = data.slice(data.length - keep);
+  };
+
+  return { push, getCount: () => count };
+};
+
+export const stripBom = (text: string): string =>
+  text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
@@ -0,0 +1,142 @@
+import { FieldMapping, FlattenedField } from '@/types/contentstack';
+import { mergeNestedData } from '@/utils/fieldUtils';
+
+const INDEX_PATTERN = /\[(\d+)\]/g;
+
+export interface IndexedPath {
+  // The path with its index removed, e.g. "sections.hero.title" for "sections[1].hero.title"
+  path: string;
+  index?: number;
+}
+
+/**
+ * Reads an instance index from headers such as "sections[1].hero.title".
+ * Only the first index is used; headers without one return no index.
+ */
+export const parseIndexedPath = (header: string): IndexedPath => {
+  const match = header.match(/\[(\d+)\]/);
+  return {
+    path: header.replace(INDEX_PATTERN, '').trim(),
+    index: match ? parseInt(match[1], 10) : undefined
+  };
+};
+
+/**
+ * Reads an instance number from wide columns such as "image_1" or "image 2",
+ * where each numbered column holds one item of a repeated group. Numbers count
+ * from 1, so "image_1" is the first instance (index 0).
+ */
+export const parseWideColumn = (header: string): IndexedPath | null => {
+  const match = header.trim().match(/^(.*?[^\d\s_-])[\s_-]*(\d+)$/);
+  if (!match || parseInt(match[2], 10) < 1) return null;
+  return { path: match[1], index: parseInt(match[2], 10) - 1 };
+};
+
+// The block or group instance a column fills; wide columns only count for fields inside a multiple group
+export const getInstanceIndex = (header: string, field: FlattenedField): number | undefined => {
+  if (!field.blockType && !field.groupPath) return undefined;
+  const { index } = parseIndexedPath(header);
+  if (index !== undefined || !field.groupPath) return index;
+  return parseWideColumn(header)?.index;
+};
+
+export interface InstanceFieldValue {
+  // Full field path, e.g. "sections.hero.title"
+  path: string;
+  value: unknown;
+  blockType?: string;
+  groupPath?: string;
+  index?: number;
+}
+
+// Values of block fields and multiple group fields; null for fields that are written directly
+export const getInstanceFieldValue = (mapping: FieldMapping, value: unknown): InstanceFieldValue | null => {
+  if (!mapping.blockType && !mapping.groupPath) return null;
+  return {
+    path: mapping.contentstackField,
+    value,
+    blockType: mapping.blockType,
+    groupPath: mapping.groupPath,
+    index: mapping.instanceIndex
+  };
+};
+
+interface Instance {
+  index?: number;
+  order: number;
+  data: Record<string, unknown>;
+}
+
+// Indexed instances first, sorted by index; unindexed ones follow in the order their first value was added
+const sortInstances = <T extends Instance>(instances: T[]): T[] =>
+  [...instances].sort((a, b) => {
+    if (a.index !== undefined && b.index !== undefined) return a.index - b.index || a.order - b.order;
+    if (a.index !== undefined) return -1;
+    if (b.index !== undefined) return 1;
+    return a.order - b.order;
+  });
+
+// Replaces the values of each multiple group with one array value at the group's path
+const foldGroupInstances = (values: InstanceFieldValue[]): InstanceFieldValue[] => {
+  const groups = new Map<string, { blockType?: string; instances: Map<string, Instance> }>();
+  const rest: InstanceFieldValue[] = [];
+
+  values.forEach(value => {
+    if (!value.groupPath) {
+      rest.push(value);
+      return;
+    }
+    if (!groups.has(value.groupPath)) groups.set(value.groupPath, { blockType: value.blockType, instances: new Map() });
+    const { instances } = groups.get(value.groupPath);
+    const key = `${value.index ?? ''}`;
+    if (!instances.has(key)) instances.set(key, { index: value.index, order: instances.size, data: {} });
+    const instance = instances.get(key);
+    instance.data = mergeNestedData(instance.data, value.value, value.path.slice(value.groupPath.length + 1), value.value === null);
+  });
+
+  // A group inside a block keeps its block type, so the array lands in the block's single unindexed instance
+  groups.forEach(({ blockType, instances }, groupPath) => {
+    rest.push({ path: groupPath, value: sortInstances([...instances.values()]).map(instance => instance.data), blockType });
+  });
+
+  return rest;
+};
+
+/**
+ * Writes block and multiple group values into the entry as Contentstack
+ * expects them. A multiple group becomes an array of objects; a modular blocks
+ * field becomes an array of `{ [blockType]: {...} }` objects. Values with the
+ * same index (and block type) form one instance, and the same mapping always
+ * produces the same order. Inside a multiple group the index picks the group
+ * item, so a block holding such a group is filled as a single instance.
+ */
+export const mergeInstanceValues = (entryData: Record<string, unknown>, values: InstanceFieldValue[]): Record<string, unknown> => {
+  const byBlocksField = new Map<string, Map<string, Instance & { blockType: string }>>();
+  let result = entryData;
+
+  foldGroupInstances(values).forEach(value => {
+    const marker = `.${value.blockType}.`;
+    const position = value.blockType ? value.path.indexOf(marker) : -1;
+    if (position === -1) {
+      result = mergeNestedData(result, value.value, value.path, value.value === null);
+      return;
+    }
+
+    const blocksPath = value.path.slice(0, position);
+    if (!byBlocksField.has(blocksPath)) byBlocksField.set(blocksPath, new Map());
+    const instances = byBlocksField.get(blocksPath);
+    const key = `${value.index ?? ''}:${value.blockType}`;
+    if (!instances.has(key)) {
+      instances.set(key, { index: value.index, order: instances.size, blockType: value.blockType, data: {} });
+    }
+    const instance = instances.get(key);
+    instance.data = mergeNestedData(instance.data, value.value, value.path.slice(position + marker.length), value.value === null);
+  });
+
+  byBlocksField.forEach((instances, blocksPath) => {
+    const blocks = sortInstances([...instances.values()]).map(instance => ({ [instance.blockType]: instance.data }));
+    result = mergeNestedData(result, blocks, blocksPath);
+  });
+
+  return result;
+};
@@ -0,0 +1,178 @@
+import { CsvColumn, FlattenedField } from '@/types/contentstack';
+import { ColumnProfile, getTypeConflict, hasTypeAffinity } from '@/utils/columnProfiler';
+import { getInstanceIndex, parseIndexedPath, parseWideColumn } from '@/utils/entryPayload';
+
+export interface MatchResult {
+  matchingField: FlattenedField | null;
+  confidence: number;
+  reason?: string;
+}
+
+// Suggestions at or above this score are mapped automatically
+export const AUTO_APPLY_CONFIDENCE = 90;
+// Suggestions at or above this score can be accepted together in one click
+export const HIGH_CONFIDENCE = 75;
+// Below this score a field is not suggested at all
+const MIN_CONFIDENCE = 50;
+
+const TYPE_CONFLICT_PENALTY = 25;
+const TYPE_AFFINITY_BONUS = 5;
+
+// Each group is rewritten to its first entry before comparing, so "Content" and "body" count as the same name
+const SYNONYM_GROUPS: string[][] = [
+  ['title', 'display title', 'entry title', 'name', 'heading', 'headline'],
+  ['body', 'content', 'description', 'text', 'copy'],
+  ['url', 'link', 'href', 'website', 'web address'],
+  ['summary', 'excerpt', 'teaser', 'abstract', 'intro'],
+  ['image', 'picture', 'photo', 'thumbnail'],
+  ['author', 'writer', 'byline'],
+  ['tags', 'keywords', 'labels'],
+  ['category', 'categories', 'section'],
+  ['publication date', 'published date', 'publish date', 'date published', 'pub date', 'release date'],
+  ['expiration date', 'expire date', 'expiry date', 'end date', 'expires']
+];
+
+// Longest phrases first so "display title" is replaced before "title"
+const SYNONYMS: [RegExp, string][] = SYNONYM_GROUPS
+  .flatMap(([canonical, ...variants]) => variants.map(variant => [variant, canonical] as const))
+  .sort((a, b) => b[0].length - a[0].length)
+  .map(([variant, canonical]) => [new RegExp(`(^| )${variant}(?= |$)`, 'g'), `$1${canonical}`]);
+
+const tokenize = (text: string): string[] =>
+  text
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2') // Split camelCase
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+    .split(' ')
+    .filter(Boolean);
+
+const applySynonyms = (tokens: string[]): string[] =>
+  SYNONYMS.reduce((phrase, [pattern, canonical]) => phrase.replace(pattern, canonical), tokens.join(' '))
+    .split(' ')
+    .filter(Boolean);
+
+const levenshtein = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// Average of the Dice coefficient and the overlap with the shorter name, so "Product Title" still scores well against "title"
+const tokenSimilarity = (a: string[], b: string[]): number => {
+  const setA = new Set(a);
+  const setB = new Set(b);
+  const shared = [...setA].filter(token => setB.has(token)).length;
+  if (shared === 0) return 0;
+
+  const dice = (2 * shared) / (setA.size + setB.size);
+  const overlap = shared / Math.min(setA.size, setB.size);
+  return (dice + overlap) / 2;
+};
+
+const editSimilarity = (a: string, b: string): number => {
+  const longest = Math.max(a.length, b.length);
+  return longest === 0 ? 0 : 1 - levenshtein(a, b) / longest;
+};
+
+const scoreName = (header: string, name: string): { score: number; reason: string } => {
+  if (header === name) return { score: 100, reason: 'Exact name' };
+
+  const headerTokens = tokenize(header);
+  const nameTokens = tokenize(name);
+  if (headerTokens.length === 0 || nameTokens.length === 0) return { score: 0, reason: '' };
+  if (headerTokens.join(' ') === nameTokens.join(' ')) return { score: 95, reason: 'Same name' };
+
+  const headerCanonical = applySynonyms(headerTokens);
+  const nameCanonical = applySynonyms(nameTokens);
+  if (headerCanonical.join(' ') === nameCanonical.join(' ')) return { score: 85, reason: 'Synonym' };
+
+  // Fuzzy matches stay below the exact levels above
+  const tokens = tokenSimilarity(headerCanonical, nameCanonical);
+  const edits = editSimilarity(headerCanonical.join(''), nameCanonical.join(''));
+  const score = Math.round(Math.max(tokens, edits * 0.9) * 84);
+  return { score, reason: tokens >= edits * 0.9 ? 'Shared words' : 'Similar spelling' };
+};
+
+/**
+ * Scores how likely a CSV column belongs in a field, from 0 to 100. The
+ * header is compared with the field's UID, display name and path; when a
+ * column profile is given, values that cannot fit the field's type lower the
+ * score and values of exactly the right type raise it slightly.
+ */
+export const scoreFieldMatch = (header: string, field: FlattenedField, profile?: ColumnProfile): MatchResult => {
+  // "sections[1].hero.title" is compared as "sections.hero.title"; the index picks the instance, not the field.
+  // Inside a multiple group, wide columns such as "image_2" are also compared without their number.
+  const paths = [parseIndexedPath(header).path];
+  const wide = field.groupPath ? parseWideColumn(header) : null;
+  if (wide) paths.push(wide.path);
+  const best = paths
+    .flatMap(path => [field.uid, field.display_name, field.fieldPath].map(name => scoreName(path, name)))
+    .reduce((a, b) => (b.score > a.score ? b : a));
+
+  let confidence = best.score;
+  let reason = best.reason;
+  if (profile && confidence > 0) {
+    if (getTypeConflict(profile, field.data_type)) {
+      confidence -= TYPE_CONFLICT_PENALTY;
+      reason += ', values do not fit the field type';
+    } else if (hasTypeAffinity(profile, field.data_type)) {
+      confidence += TYPE_AFFINITY_BONUS;
+      reason += ', values fit the field type';
+    }
+  }
+
+  return { matchingField: field, confidence: Math.max(0, Math.min(100, confidence)), reason };
+};
+
+export const findMatchingField = (csvHeader: string, fields: FlattenedField[], profile?: ColumnProfile): MatchResult => {
+  const best = fields
+    .map(field => scoreFieldMatch(csvHeader, field, profile))
+    .reduce<MatchResult | null>((a, b) => (!a || b.confidence > a.confidence ? b : a), null);
+
+  return best && best.confidence >= MIN_CONFIDENCE ? best : { matchingField: null, confidence: 0 };
+};
+
+/**
+ * Suggests a field for every column, keyed by column id. Pairs are assigned
+ * best score first and each field is suggested for one column at most, so two
+ * similar headers do not both land on the same field. Indexed headers such as
+ * "sections[0].hero.title" and "sections[1].hero.title", or wide columns
+ * such as "image_1" and "image_2" in a multiple group, fill different
+ * instances, so they may share a field.
+ */
+export const suggestFieldMatches = (
+  columns: CsvColumn[],
+  fields: FlattenedField[],
+  profiles: Record<string, ColumnProfile> = {}
+): Record<string, MatchResult> => {
+  const candidates = columns
+    .flatMap(column => fields.map(field => ({
+      columnId: column.id,
+      instance: getInstanceIndex(column.header, field) ?? '',
+      ...scoreFieldMatch(column.header, field, profiles[column.id])
+    })))
+    .filter(candidate => candidate.confidence >= MIN_CONFIDENCE)
+    .sort((a, b) => b.confidence - a.confidence);
+
+  const suggestions: Record<string, MatchResult> = {};
+  const usedFields = new Set<string>();
+  candidates.forEach(({ columnId, instance, ...match }) => {
+    const fieldKey = `${match.matchingField.fieldPath}#${instance}`;
+    if (suggestions[columnId] || usedFields.has(fieldKey)) return;
+    suggestions[columnId] = match;
+    usedFields.add(fieldKey);
+  });
+
+  return suggestions;
+};
@@ -1,5 +1,16 @@
 
-import { ContentstackField, FlattenedField, BlockSchema } from '@/types/contentstack';
+import { ContentstackField, FlattenedField, BlockSchema, CsvCellType } from '@/types/contentstack';
+
+// Group and block children carry their parents in the display name, e.g. "Specs > Label"
+const prefixDisplayName = (prefix: string, fields: FlattenedField[]): FlattenedField[] =>
+  fields.map(child => ({ ...child, display_name: `${prefix} > ${child.display_name}` }));
+
+// Children of a multiple group are written as one array item per instance; the innermost multiple group wins
+const nestInGroup = (group: ContentstackField, groupPath: string, children: FlattenedField[]): FlattenedField[] =>
+  prefixDisplayName(group.display_name, children).map(child => ({
+    ...child,
+    groupPath: child.groupPath ?? (group.multiple ? groupPath : undefined)
+  }));
 
 export const flattenContentstackFields = async (
   fields: ContentstackField[], 
@@ -12,8 +23,8 @@ export const flattenContentstackFields = async (
   for (const field of fields) {
     const fieldPath = parentPath ? `${parentPath}.${field.uid}` : field.uid;
     
-    // Add the field itself (except for blocks which are containers)
-    if (field.data_type !== 'blocks') {
+    // Add the field itself (except for blocks and groups which are containers)
+    if (field.data_type !== 'blocks' && field.data_type !== 'group') {
       flattened.push({
         uid: field.uid,
         display_name: field.display_name,
@@ -22,28 +33,25 @@ export const flattenContentstackFields = async (
         reference_to: field.reference_to,
         fieldPath,
         parentField: parentField || undefined,
-        selectOptions: field.enum || undefined
+        selectOptions: field.enum || undefined,
+        multiple: field.multiple || field.field_metadata?.ref_multiple,
+        maxInstance: field.max_instance
       });
     }
     
     // Handle modular blocks
     if (field.data_type === 'blocks' && field.blocks) {
-      field.blocks.forEach(block => {
-        block.schema.forEach(blockField => {
-          const blockFieldPath = `${fieldPath}.${block.uid}.${blockField.uid}`;
-          flattened.push({
-            uid: blockField.uid,
-            display_name: `${field.display_name} > ${block.title} > ${blockField.display_name}`,
-            data_type: blockField.data_type,
-            mandatory: blockField.mandatory,
-            reference_to: blockField.reference_to,
-            fieldPath: blockFieldPath,
-            parentField: field.uid,
-            blockType: block.uid,
-            selectOptions: blockField.enum || undefined
-          });
-        });
-      });
+      for (const block of field.blocks) {
+        const blockFields = await flattenContentstackFields(block.schema, `${fieldPath}.${block.uid}`, field.uid, config);
+        flattened.push(...prefixDisplayName(`${field.display_name} > ${block.title}`, blockFields)
+          .map(blockField => ({ ...blockField, blockType: block.uid })));
+      }
+    }
+
+    // Handle groups (their children are mapped one by one)
+    if (field.data_type === 'group' && field.schema) {
+      const groupFields = await flattenContentstackFields(field.schema, fieldPath, field.uid, config);
+      flattened.push(...nestInGroup(field, fieldPath, groupFields));
     }
     
     // Handle global fields (fetch schema if not present)
@@ -137,8 +145,8 @@ export const flattenContentstackFieldsSync = (fields: ContentstackField[], paren
   fields.forEach(field => {
     const fieldPath = parentPath ? `${parentPath}.${field.uid}` : field.uid;
     
-    // Add the field itself (except for blocks which are containers)
-    if (field.data_type !== 'blocks') {
+    // Add the field itself (except for blocks and groups which are containers)
+    if (field.data_type !== 'blocks' && field.data_type !== 'group') {
       flattened.push({
         uid: field.uid,
         display_name: field.display_name,
@@ -146,28 +154,25 @@ export const flattenContentstackFieldsSync = (fields: ContentstackField[], paren
         mandatory: field.mandatory,
         reference_to: field.reference_to,
         fieldPath,
-        parentField: parentField || undefined
+        parentField: parentField || undefined,
+        multiple: field.multiple || field.field_metadata?.ref_multiple,
+        maxInstance: field.max_instance
       });
     }
     
     // Handle modular blocks
     if (field.data_type === 'blocks' && field.blocks) {
       field.blocks.forEach(block => {
-        block.schema.forEach(blockField => {
-          const blockFieldPath = `${fieldPath}.${block.uid}.${blockField.uid}`;
-          flattened.push({
-            uid: blockField.uid,
-            display_name: `${field.display_name} > ${block.title} > ${blockField.display_name}`,
-            data_type: blockField.data_type,
-            mandatory: blockField.mandatory,
-            reference_to: blockField.reference_to,
-            fieldPath: blockFieldPath,
-            parentField: field.uid,
-            blockType: block.uid
-          });
-        });
+        const blockFields = flattenContentstackFieldsSync(block.schema, `${fieldPath}.${block.uid}`, field.uid);
+        flattened.push(...prefixDisplayName(`${field.display_name} > ${block.title}`, blockFields)
+          .map(blockField => ({ ...blockField, blockType: block.uid })));
       });
     }
+
+    // Handle groups (their children are mapped one by one)
+    if (field.data_type === 'group' && field.schema) {
+      flattened.push(...nestInGroup(field, fieldPath, flattenContentstackFieldsSync(field.schema, fieldPath, field.uid)));
+    }
     
     // Handle global fields (they have nested schema)
     if (field.data_type === 'global_field' && field.schema) {
@@ -217,7 +222,8 @@ export const transformNestedValue = async (
   value: string,
   fieldPath: string,
   fieldMapping: any,
-  transformValue: (value: string, mapping: any) => Promise<any>
+  transformValue: (value: string, mapping: any, cellType?: CsvCellType) => Promise<any>,
+  cellType?: CsvCellType
 ): Promise<any> => {
   if (!value || value.trim() === '') return null;
   
@@ -226,18 +232,19 @@ export const transformNestedValue = async (
   console.log(`🔧 TRANSFORM DEBUG: Field mapping:`, fieldMapping);
   
   // Transform the value using the provided transform function
-  const transformedValue = await transformValue(value, fieldMapping);
+  const transformedValue = await transformValue(value, fieldMapping, cellType);
   console.log(`🔧 TRANSFORM DEBUG: Transformed value:`, transformedValue);
   
   return transformedValue;
 };
 
-export const mergeNestedData = (existingData: any, newData: any, fieldPath: string): any => {
+// Null values are skipped unless keepNull is set, which is how empty cells clear a field
+export const mergeNestedData = (existingData: any, newData: any, fieldPath: string, keepNull = false): any => {
   console.log(`🔄 MERGE DEBUG: === Starting merge for fieldPath: ${fieldPath} ===`);
   console.log(`🔄 MERGE DEBUG: New data type:`, typeof newData, newData);
   console.log(`🔄 MERGE DEBUG: Existing data:`, existingData);
   
-  if (newData === null || newData === undefined) {
+  if (newData === undefined || (newData === null && !keepNull)) {
     console.log(`🔄 MERGE DEBUG: Skipping null/undefined value`);
     return existingData;
   }
@@ -0,0 +1,133 @@
+import { CsvCellType, CsvData, CsvRowSource } from '@/types/contentstack';
+import { detectEncoding, stripBom } from '@/utils/encoding';
+import { buildColumns } from '@/utils/csvDataUtils';
+
+export const JSON_EXTENSIONS = ['.json', '.ndjson'];
+
+export const isJsonFile = (fileName: string): boolean =>
+  JSON_EXTENSIONS.some(extension => fileName.toLowerCase().endsWith(extension));
+
+type JsonValue = string | number | boolean | null | JsonValue[] | { [key: string]: JsonValue };
+type JsonObject = { [key: string]: JsonValue };
+
+const isPlainObject = (value: JsonValue): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const toCell = (value: JsonValue): { value: string; type: CsvCellType } => {
+  if (Array.isArray(value)) return { value: JSON.stringify(value), type: 'json' };
+  if (typeof value === 'number') return { value: String(value), type: 'number' };
+  if (typeof value === 'boolean') return { value: String(value), type: 'boolean' };
+  if (value === null || value === undefined) return { value: '', type: 'string' };
+  return { value: String(value), type: 'string' };
+};
+
+/**
+ * Flattens nested objects into dot-path keys (`seo.meta_title`) so they line
+ * up with the `fieldPath` values of flattened Contentstack fields. Arrays are
+ * kept whole as JSON-valued cells.
+ */
+const flattenRecord = (
+  record: JsonObject,
+  prefix = '',
+  target: Record<string, { value: string; type: CsvCellType }> = {}
+) => {
+  Object.entries(record).forEach(([key, value]) => {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (isPlainObject(value) && Object.keys(value).length > 0) {
+      flattenRecord(value, path, target);
+    } else {
+      target[path] = isPlainObject(value) ? { value: '', type: 'string' } : toCell(value);
+    }
+  });
+  return target;
+};
+
+interface JsonRecord {
+  value: JsonValue;
+  // NDJSON line number, or the 1-based position in a JSON array
+  line: number;
+}
+
+const parseNdjson = (text: string): JsonRecord[] =>
+  text.split(/\r\n|\n|\r/)
+    .map((line, index) => ({ line: line.trim(), lineNumber: index + 1 }))
+    .filter(({ line }) => line !== '')
+    .map(({ line, lineNumber }) => {
+      try {
+        return { value: JSON.parse(line) as JsonValue, line: lineNumber };
+      } catch (error) {
+        throw new Error(`Invalid JSON on line ${lineNumber}: ${error instanceof Error ? error.message : error}`);
+      }
+    });
+
+// Accepts a top-level array, an object wrapping one array of records (e.g. { "entries": [...] }) or a single object
+const extractRecords = (parsed: JsonValue): JsonValue[] => {
+  if (Array.isArray(parsed)) return parsed;
+
+  if (isPlainObject(parsed)) {
+    const arrays = Object.values(parsed).filter(value => Array.isArray(value) && value.some(isPlainObject));
+    if (arrays.length === 1) return arrays[0] as JsonValue[];
+    return [parsed];
+  }
+
+  throw new Error('JSON file must contain an array of objects');
+};
+
+export interface JsonParseResult {
+  data: CsvData;
+  // Top-level values that are not objects (numbers, strings, nested arrays) and were left out
+  skippedCount: number;
+}
+
+export const parseJsonText = (text: string, isNdjson: boolean, sourceName = ''): JsonParseResult => {
+  const content = stripBom(text);
+  const records: JsonRecord[] = isNdjson
+    ? parseNdjson(content)
+    : extractRecords(JSON.parse(content) as JsonValue).map((value, index) => ({ value, line: index + 1 }));
+
+  const headers: string[] = [];
+  const seenHeaders = new Set<string>();
+  const objectRecords = records.filter(record => isPlainObject(record.value));
+  const flattenedRecords = objectRecords
+    .map(record => {
+      const flattened = flattenRecord(record.value as JsonObject);
+      Object.keys(flattened).forEach(header => {
+        if (!seenHeaders.has(header)) {
+          seenHeaders.add(header);
+          headers.push(header);
+        }
+      });
+      return flattened;
+    });
+
+  // Headers are the union of every record's keys, so missing values are filled in afterwards
+  const columns = buildColumns(headers);
+  const rows: Record<string, string>[] = [];
+  const cellTypes: Record<string, CsvCellType>[] = [];
+  flattenedRecords.forEach(flattened => {
+    const row: Record<string, string> = {};
+    const types: Record<string, CsvCellType> = {};
+    columns.forEach(column => {
+      const cell = flattened[column.sourceHeader];
+      row[column.id] = cell?.value ?? '';
+      types[column.id] = cell?.type ?? 'string';
+    });
+    rows.push(row);
+    cellTypes.push(types);
+  });
+
+  const rowSources: CsvRowSource[] = objectRecords.map(record => ({ file: sourceName, line: record.line }));
+
+  return {
+    data: { headers: columns.map(column => column.header), rows, cellTypes, columns, rowSources },
+    skippedCount: records.length - objectRecords.length
+  };
+};
+
+export const parseJsonFile = async (file: File): Promise<JsonParseResult> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  // JSON is UTF-8 or UTF-16 in practice; detection only has to tell those apart
+  const { encoding } = detectEncoding(bytes, ['utf-8']);
+  const text = new TextDecoder(encoding).decode(bytes);
+  return parseJsonText(text, file.name.toLowerCase().endsWith('.ndjson'), file.name);
+};
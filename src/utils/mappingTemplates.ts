@@ -0,0 +1,142 @@
+import { CsvColumn, FieldMapping, MappingTemplate } from '@/types/contentstack';
+import { getMappingColumnId } from '@/utils/csvDataUtils';
+import { getTemplatePlaceholders, isColumnMapping, isTemplateMapping } from '@/utils/mappingValues';
+
+const STORAGE_KEY = 'contentstack-mapping-templates';
+const EXPORT_FORMAT = 'contentstack-csv-importer/mapping-template';
+const EXPORT_VERSION = 1;
+
+export interface TemplateApplyResult {
+  mapping: FieldMapping[];
+  // CSV columns the template says nothing about; they are left unmapped
+  unmatchedColumns: string[];
+  // Template columns that are not in the CSV; their mappings were not applied
+  missingColumns: string[];
+}
+
+const generateId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const loadTemplates = (): MappingTemplate[] => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch (error) {
+    console.error('Error loading mapping templates:', error);
+    return [];
+  }
+};
+
+export const saveTemplates = (templates: MappingTemplate[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(templates));
+};
+
+/**
+ * Builds a template from the current mapping. Column ids only mean something
+ * for the file they came from, so mappings are stored by header name, using
+ * the column's current (possibly renamed) header.
+ */
+export const createTemplate = (
+  name: string,
+  contentTypeUid: string,
+  mapping: FieldMapping[],
+  columns: CsvColumn[]
+): MappingTemplate => {
+  const now = new Date().toISOString();
+  const mappings = mapping
+    .filter(entry => entry.contentstackField !== 'skip')
+    .map(entry => {
+      const column = !isColumnMapping(entry) ? undefined : columns.find(c => c.id === getMappingColumnId(entry));
+      return { ...entry, csvColumn: column?.header ?? entry.csvColumn, columnId: undefined, confidence: undefined };
+    });
+
+  return { id: generateId(), name, contentTypeUid, createdAt: now, updatedAt: now, mappings };
+};
+
+export const duplicateTemplate = (template: MappingTemplate, existing: MappingTemplate[]): MappingTemplate => {
+  const names = new Set(existing.map(t => t.name));
+  let name = `${template.name} (copy)`;
+  for (let copy = 2; names.has(name); copy++) {
+    name = `${template.name} (copy ${copy})`;
+  }
+
+  const now = new Date().toISOString();
+  return { ...template, id: generateId(), name, createdAt: now, updatedAt: now };
+};
+
+export const exportTemplate = (template: MappingTemplate): string =>
+  JSON.stringify({ format: EXPORT_FORMAT, version: EXPORT_VERSION, template }, null, 2);
+
+/**
+ * Reads a file written by exportTemplate. The imported template gets a new id
+ * so importing the same file twice never overwrites an existing template.
+ */
+export const parseTemplateFile = (text: string): MappingTemplate => {
+  const parsed = JSON.parse(text);
+  if (parsed?.format !== EXPORT_FORMAT || !parsed.template) {
+    throw new Error('This file is not an exported mapping template');
+  }
+
+  const { template } = parsed;
+  if (typeof template.name !== 'string' || typeof template.contentTypeUid !== 'string' || !Array.isArray(template.mappings)) {
+    throw new Error('The mapping template is missing its name, content type or mappings');
+  }
+
+  const invalid = template.mappings.find((entry: FieldMapping) =>
+    typeof entry?.csvColumn !== 'string' || typeof entry?.contentstackField !== 'string'
+  );
+  if (invalid) {
+    throw new Error('The mapping template contains mappings without a column or field');
+  }
+
+  return { ...template, id: generateId() };
+};
+
+/**
+ * Maps the template onto the uploaded columns by header name (falling back to
+ * the header as written in the file). A column gets every template entry for
+ * its header, so columns written to several fields keep all of them. Columns
+ * without a template entry are skipped, and template entries without a column
+ * are reported, not dropped silently. Combined, constant and computed values
+ * are kept as they are since they do not belong to a single column.
+ */
+export const applyTemplate = (template: MappingTemplate, columns: CsvColumn[]): TemplateApplyResult => {
+  const columnEntries = template.mappings.filter(isColumnMapping);
+  const otherEntries = template.mappings.filter(entry => !isColumnMapping(entry));
+  // Columns only used inside combined values still count as covered by the template
+  const placeholders = new Set(otherEntries
+    .filter(isTemplateMapping)
+    .flatMap(entry => getTemplatePlaceholders(entry.template ?? '')));
+  const usedEntries = new Set<FieldMapping>();
+  const unmatchedColumns: string[] = [];
+
+  const mapping = columns.flatMap(column => {
+    let entries = columnEntries.filter(candidate => !usedEntries.has(candidate) && candidate.csvColumn === column.header);
+    if (entries.length === 0) {
+      entries = columnEntries.filter(candidate => !usedEntries.has(candidate) && candidate.csvColumn === column.sourceHeader.trim());
+    }
+
+    if (entries.length === 0) {
+      if (!placeholders.has(column.header)) unmatchedColumns.push(column.header);
+      return [{
+        csvColumn: column.header,
+        columnId: column.id,
+        contentstackField: 'skip',
+        fieldType: 'text' as const,
+        isRequired: false
+      }];
+    }
+
+    entries.forEach(entry => usedEntries.add(entry));
+    return entries.map(entry => ({ ...entry, csvColumn: column.header, columnId: column.id }));
+  });
+
+  const missingColumns = [...new Set(columnEntries
+    .filter(entry => !usedEntries.has(entry))
+    .map(entry => entry.csvColumn))];
+
+  return {
+    mapping: [...mapping, ...otherEntries],
+    unmatchedColumns,
+    missingColumns
+  };
+};
@@ -0,0 +1,100 @@
+import { ComputedValueKind, CsvCellType, CsvColumn, CsvData, FieldMapping } from '@/types/contentstack';
+import { getMappingColumnId } from '@/utils/csvDataUtils';
+
+const PLACEHOLDER_PATTERN = /\{([^{}]+)\}/g;
+
+// Identifies one import run; computed values that depend on the run stay the same for all of its rows
+export interface ImportRun {
+  id: string;
+  startedAt: Date;
+}
+
+export const COMPUTED_VALUES: { value: ComputedValueKind; label: string }[] = [
+  { value: 'currentDate', label: 'Import date & time' },
+  { value: 'rowNumber', label: 'Row number' },
+  { value: 'runId', label: 'Import run id' },
+  { value: 'uuid', label: 'Random UUID' }
+];
+
+export const isColumnMapping = (mapping: FieldMapping): boolean => !mapping.source || mapping.source === 'column';
+
+export const isTemplateMapping = (mapping: FieldMapping): boolean => mapping.source === 'template';
+
+// Constant and computed mappings fill a field without reading any column
+export const isSyntheticMapping = (mapping: FieldMapping): boolean =>
+  mapping.source === 'constant' || mapping.source === 'computed';
+
+export const createImportRun = (startedAt = new Date()): ImportRun => ({
+  id: `${startedAt.toISOString().replace(/[-:]/g, '').slice(0, 15)}-${Math.random().toString(36).slice(2, 6)}`,
+  startedAt
+});
+
+const getComputedValue = (kind: ComputedValueKind, rowIndex: number, run: ImportRun): string => {
+  switch (kind) {
+    case 'currentDate': return run.startedAt.toISOString();
+    case 'rowNumber': return String(rowIndex + 1);
+    case 'runId': return run.id;
+    case 'uuid': return crypto.randomUUID();
+    default: return '';
+  }
+};
+
+// Column names referenced by a template such as "{first_name} {last_name}"
+export const getTemplatePlaceholders = (template: string): string[] => {
+  const names: string[] = [];
+  template.replace(PLACEHOLDER_PATTERN, (_, name: string) => {
+    names.push(name.trim());
+    return '';
+  });
+  return names;
+};
+
+// Placeholders are matched by current header first, then by id or the header as written in the file
+const findPlaceholderColumn = (columns: CsvColumn[], name: string): CsvColumn | undefined =>
+  columns.find(column => column.header === name) ??
+  columns.find(column => column.id === name || column.sourceHeader.trim() === name);
+
+export const findMissingPlaceholders = (template: string, columns: CsvColumn[]): string[] =>
+  getTemplatePlaceholders(template).filter(name => !findPlaceholderColumn(columns, name));
+
+/**
+ * Fills a template from one row. When every placeholder is empty the result
+ * is empty as well, so "{first_name} {last_name}" on a blank row is treated
+ * as a missing value rather than a single space.
+ */
+export const renderTemplate = (template: string, row: Record<string, string>, columns: CsvColumn[]): string => {
+  let hasValue = false;
+  const rendered = template.replace(PLACEHOLDER_PATTERN, (_, name: string) => {
+    const column = findPlaceholderColumn(columns, name.trim());
+    const value = column ? row[column.id] ?? '' : '';
+    if (value.trim()) hasValue = true;
+    return value;
+  });
+  return hasValue ? rendered : '';
+};
+
+/**
+ * Raw value a mapping produces for a row, before its transforms and value
+ * policy are applied. Computed values need the row's index and the run it is
+ * imported in.
+ */
+export const getMappingRawValue = (
+  mapping: FieldMapping,
+  row: Record<string, string>,
+  columns: CsvColumn[],
+  rowIndex = 0,
+  run: ImportRun = createImportRun()
+): string => {
+  switch (mapping.source) {
+    case 'template': return renderTemplate(mapping.template ?? '', row, columns);
+    case 'constant': return mapping.constantValue ?? '';
+    case 'computed': return getComputedValue(mapping.computed, rowIndex, run);
+    default: return row[getMappingColumnId(mapping)];
+  }
+};
+
+// Cell type the parser recorded for the mapped column; every other value is text
+export const getMappingCellType = (mapping: FieldMapping, data: CsvData, rowIndex: number): CsvCellType | undefined =>
+  !isColumnMapping(mapping) || mapping.transforms?.length
+    ? undefined
+    : data.cellTypes?.[rowIndex]?.[getMappingColumnId(mapping)];
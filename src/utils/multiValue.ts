@@ -0,0 +1,53 @@
+import { CsvCellType, CsvColumn, CsvData, FieldMapping, ValuePolicy } from '@/types/contentstack';
+import { getMappingCellType, getMappingRawValue, ImportRun } from '@/utils/mappingValues';
+import { applyTransforms } from '@/utils/transformPipeline';
+import { applyValuePolicy, getValuePolicy } from '@/utils/valuePolicy';
+
+export const DEFAULT_SPLIT_DELIMITER = '|';
+
+export const getSplitDelimiter = (mapping: FieldMapping): string => mapping.splitDelimiter || DEFAULT_SPLIT_DELIMITER;
+
+// Parts are trimmed only when the mapping trims; like cells, whitespace-only parts count as empty and are dropped
+const cleanParts = (parts: string[], policy: ValuePolicy): string[] =>
+  parts.map(part => policy.trim ? part.trim() : part).filter(part => part.trim() !== '');
+
+// Splits one cell into the values of a multiple field, dropping empty parts such as a trailing delimiter
+export const splitMultiValue = (value: string, delimiter: string, policy: ValuePolicy): string[] =>
+  cleanParts(value.split(delimiter), policy);
+
+// Items of a JSON array cell as strings, or null when the cell is not an array
+const parseJsonArray = (value: string, policy: ValuePolicy): string[] | null => {
+  try {
+    const parsed: unknown = JSON.parse(value);
+    if (!Array.isArray(parsed)) return null;
+    return cleanParts(
+      parsed
+        .filter(item => item !== null && item !== undefined)
+        .map(item => typeof item === 'object' ? JSON.stringify(item) : String(item)),
+      policy
+    );
+  } catch {
+    return null;
+  }
+};
+
+// JSON and NDJSON arrays arrive as 'json' cells and already hold the list, so they are not split on the delimiter
+export const getMultiValueParts = (value: string, mapping: FieldMapping, policy: ValuePolicy, cellType?: CsvCellType): string[] =>
+  (cellType === 'json' ? parseJsonArray(value, policy) : null) ?? splitMultiValue(value, getSplitDelimiter(mapping), policy);
+
+// Returns why a list of values does not fit the field's max_instance, or null when it fits
+export const getInstanceLimitError = (mapping: FieldMapping, count: number): string | null =>
+  mapping.maxInstance && count > mapping.maxInstance
+    ? `Field "${mapping.contentstackField}" allows at most ${mapping.maxInstance} values, but the row has ${count}`
+    : null;
+
+// Rows whose cell splits into more values than the field's max_instance; these rows fail on import
+export const countRowsOverLimit = (mapping: FieldMapping, data: CsvData, columns: CsvColumn[], run: ImportRun): number => {
+  if (!mapping.multiple || !mapping.maxInstance) return 0;
+
+  const policy = getValuePolicy(mapping);
+  return data.rows.filter((row, rowIndex) => {
+    const value = applyValuePolicy(applyTransforms(getMappingRawValue(mapping, row, columns, rowIndex, run), mapping.transforms), policy);
+    return value !== null && getMultiValueParts(value, mapping, policy, getMappingCellType(mapping, data, rowIndex)).length > mapping.maxInstance;
+  }).length;
+};
@@ -0,0 +1,129 @@
+import { ContentstackConfig, FieldMapping } from '@/types/contentstack';
+
+export const DEFAULT_REFERENCE_MATCH_FIELD = 'title';
+
+// One item of a reference field's value
+export interface ReferenceLink {
+  uid: string;
+  _content_type_uid: string;
+}
+
+// An entry created because no existing entry matched a reference value
+export interface ReferenceStub {
+  uid: string;
+  contentType: string;
+  title: string;
+}
+
+export type ReferenceApiConfig = Pick<ContentstackConfig, 'host' | 'apiKey' | 'managementToken'>;
+
+// Content types a reference mapping looks in; mappings saved before all of them were kept only have the first
+export const getReferenceContentTypes = (mapping: FieldMapping): string[] => {
+  if (mapping.referenceContentTypes?.length) return mapping.referenceContentTypes;
+  return mapping.referenceContentType ? [mapping.referenceContentType] : [];
+};
+
+/**
+ * Turns CSV values such as an author name or a slug into links to existing
+ * entries. The referenced content types are queried in order for an entry
+ * whose match field equals the value, and the first hit wins. Results are
+ * cached per content types, match field and value - misses included - so a
+ * value repeated over many rows costs one lookup. Failed requests are not
+ * cached and throw.
+ */
+export class ReferenceResolver {
+  private cache = new Map<string, Promise<ReferenceLink | null>>();
+  private stubs: ReferenceStub[] = [];
+
+  constructor(
+    private readonly config: ReferenceApiConfig,
+    private readonly fetchImpl: typeof fetch = (input, init) => fetch(input, init)
+  ) {}
+
+  resolve(value: string, contentTypes: string[], matchField = DEFAULT_REFERENCE_MATCH_FIELD): Promise<ReferenceLink | null> {
+    const key = JSON.stringify([contentTypes, matchField, value.trim()]);
+    if (!this.cache.has(key)) this.remember(key, this.lookup(value.trim(), contentTypes, matchField));
+    return this.cache.get(key);
+  }
+
+  /**
+   * Like `resolve`, but when no entry matches, creates a stub entry in the
+   * first content type with the value as its title (and match field) and
+   * links to it. The stub replaces the cached miss, so each distinct value is
+   * created once.
+   */
+  async resolveOrCreate(value: string, contentTypes: string[], matchField = DEFAULT_REFERENCE_MATCH_FIELD): Promise<ReferenceLink | null> {
+    const lookup = this.resolve(value, contentTypes, matchField);
+    if ((await lookup) || contentTypes.length === 0) return lookup;
+
+    const key = JSON.stringify([contentTypes, matchField, value.trim()]);
+    if (this.cache.get(key) === lookup) this.remember(key, this.createStub(value.trim(), contentTypes[0], matchField));
+    return this.cache.get(key);
+  }
+
+  // Stub entries created since the last clear, in creation order
+  getCreatedStubs(): ReferenceStub[] {
+    return [...this.stubs];
+  }
+
+  // Drops cached results and the stub list, e.g. before an import run so entries created since are found
+  clear(): void {
+    this.cache.clear();
+    this.stubs = [];
+  }
+
+  private remember(key: string, result: Promise<ReferenceLink | null>): void {
+    this.cache.set(key, result.catch(error => {
+      this.cache.delete(key);
+      throw error;
+    }));
+  }
+
+  private getHeaders() {
+    return {
+      'api_key': this.config.apiKey,
+      'authorization': this.config.managementToken,
+      'Content-Type': 'application/json'
+    };
+  }
+
+  private async lookup(value: string, contentTypes: string[], matchField: string): Promise<ReferenceLink | null> {
+    for (const contentType of contentTypes) {
+      const query = encodeURIComponent(JSON.stringify({ [matchField]: value }));
+      const response = await this.fetchImpl(`${this.config.host}/v3/content_types/${contentType}/entries?query=${query}&limit=1`, {
+        method: 'GET',
+        headers: this.getHeaders()
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`Error looking up "${value}" in ${contentType}: ${errorText}`);
+      }
+
+      const result = await response.json();
+      const entry = result.entries?.[0];
+      if (entry) return { uid: entry.uid, _content_type_uid: contentType };
+    }
+
+    return null;
+  }
+
+  private async createStub(title: string, contentType: string, matchField: string): Promise<ReferenceLink> {
+    // The match field gets the value too, so later lookups find the stub; uid is assigned by Contentstack
+    const entry = matchField === 'uid' ? { title } : { title, [matchField]: title };
+    const response = await this.fetchImpl(`${this.config.host}/v3/content_types/${contentType}/entries`, {
+      method: 'POST',
+      headers: this.getHeaders(),
+      body: JSON.stringify({ entry })
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Error creating ${contentType} entry "${title}": ${errorText}`);
+    }
+
+    const result = await response.json();
+    this.stubs.push({ uid: result.entry.uid, contentType, title });
+    return { uid: result.entry.uid, _content_type_uid: contentType };
+  }
+}
@@ -0,0 +1,54 @@
+import { FieldMapping, FlattenedField } from '@/types/contentstack';
+import { isSyntheticMapping } from '@/utils/mappingValues';
+
+// mapped: filled from the CSV (a column or a combined value); constant: a fixed or generated value
+export type CoverageStatus = 'mapped' | 'constant' | 'missing';
+
+export interface RequiredFieldCoverage {
+  field: FlattenedField;
+  status: CoverageStatus;
+  // Column header or value description of the mapping that covers the field
+  coveredBy?: string;
+}
+
+const getParentPath = (fieldPath: string) => fieldPath.slice(0, fieldPath.lastIndexOf('.'));
+
+// A constant or template left blank fills nothing, so it does not cover a field
+const hasValueSource = (mapping: FieldMapping): boolean => {
+  switch (mapping.source) {
+    case 'constant': return (mapping.constantValue ?? '').trim() !== '';
+    case 'template': return (mapping.template ?? '').trim() !== '';
+    case 'computed': return Boolean(mapping.computed);
+    default: return true;
+  }
+};
+
+/**
+ * Lists every mandatory field with how it is filled. Global fields count as
+ * covered when one of their children is mapped. Fields inside a modular block
+ * or a multiple group are only required when that block or group is used,
+ * i.e. when some other field of it is mapped.
+ */
+export const getRequiredFieldCoverage = (fields: FlattenedField[], mappings: FieldMapping[]): RequiredFieldCoverage[] => {
+  const targets = mappings.filter(mapping => mapping.contentstackField !== 'skip' && hasValueSource(mapping));
+
+  return fields
+    .filter(field => field.mandatory)
+    .filter(field => (!field.blockType && !field.groupPath) || targets.some(mapping =>
+      mapping.contentstackField.startsWith(`${getParentPath(field.fieldPath)}.`)
+    ))
+    .map(field => {
+      const mapping = targets.find(candidate => candidate.contentstackField === field.fieldPath) ??
+        targets.find(candidate => candidate.contentstackField.startsWith(`${field.fieldPath}.`));
+
+      if (!mapping) return { field, status: 'missing' as const };
+      return {
+        field,
+        status: isSyntheticMapping(mapping) ? 'constant' as const : 'mapped' as const,
+        coveredBy: mapping.csvColumn
+      };
+    });
+};
+
+export const getMissingRequiredFields = (coverage: RequiredFieldCoverage[]): FlattenedField[] =>
+  coverage.filter(entry => entry.status === 'missing').map(entry => entry.field);
@@ -0,0 +1,113 @@
+import type { WorkBook } from 'xlsx';
+import { CsvCellType, CsvData, CsvRowSource } from '@/types/contentstack';
+import { buildColumns } from '@/utils/csvDataUtils';
+
+export const SPREADSHEET_EXTENSIONS = ['.xlsx', '.ods'];
+
+export const isSpreadsheetFile = (fileName: string): boolean =>
+  SPREADSHEET_EXTENSIONS.some(extension => fileName.toLowerCase().endsWith(extension));
+
+type SpreadsheetCell = string | number | boolean | Date | null;
+
+// SheetJS is only loaded once a workbook is actually uploaded
+const loadXlsx = () => import('xlsx');
+
+export const readWorkbook = async (file: File): Promise<WorkBook> => {
+  const XLSX = await loadXlsx();
+  const buffer = await file.arrayBuffer();
+  // cellDates turns date-formatted cells into Date objects instead of serial numbers
+  return XLSX.read(buffer, { type: 'array', cellDates: true });
+};
+
+interface SheetRow {
+  cells: SpreadsheetCell[];
+  // 1-based row number as shown in the spreadsheet application
+  sheetRowNumber: number;
+}
+
+const isBlankRow = (cells: SpreadsheetCell[]) => cells.every(cell => cell === null || cell === '');
+
+// Blank rows are dropped after numbering, so each row keeps the number it has in the sheet
+const readSheetRows = async (workbook: WorkBook, sheetName: string): Promise<SheetRow[]> => {
+  const XLSX = await loadXlsx();
+  const sheet = workbook.Sheets[sheetName];
+  if (!sheet) {
+    throw new Error(`Sheet "${sheetName}" not found in workbook`);
+  }
+
+  const firstRow = sheet['!ref'] ? XLSX.utils.decode_range(sheet['!ref']).s.r : 0;
+  return XLSX.utils.sheet_to_json<SpreadsheetCell[]>(sheet, {
+    header: 1,
+    raw: true,
+    defval: null,
+    blankrows: true
+  })
+    .map((cells, index) => ({ cells, sheetRowNumber: firstRow + index + 1 }))
+    .filter(row => !isBlankRow(row.cells));
+};
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+
+// SheetJS builds dates from the sheet's wall-clock value in local time, so read them back
+// from the local parts; toISOString would shift date-only cells by the UTC offset
+const formatCellDate = (date: Date): string => {
+  const day = `${pad(date.getFullYear(), 4)}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+  if (date.getHours() === 0 && date.getMinutes() === 0 && date.getSeconds() === 0) {
+    return day;
+  }
+  return `${day}T${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+};
+
+const convertCell = (cell: SpreadsheetCell): { value: string; type: CsvCellType } => {
+  if (cell instanceof Date) {
+    return { value: isNaN(cell.getTime()) ? '' : formatCellDate(cell), type: 'date' };
+  }
+  if (typeof cell === 'number') {
+    return { value: String(cell), type: 'number' };
+  }
+  if (typeof cell === 'boolean') {
+    return { value: String(cell), type: 'boolean' };
+  }
+  return { value: cell === null || cell === undefined ? '' : String(cell), type: 'string' };
+};
+
+export const getSheetPreview = async (workbook: WorkBook, sheetName: string, rowCount = 10): Promise<string[][]> => {
+  const rows = await readSheetRows(workbook, sheetName);
+  return rows.slice(0, rowCount).map(row => row.cells.map(cell => convertCell(cell).value));
+};
+
+/**
+ * Converts one sheet into CsvData. `headerRow` is the 1-based non-empty row
+ * holding the column names; everything below it becomes data. Typed cells are rendered as
+ * strings (ISO dates, plain numbers, true/false) and their original type is
+ * kept in `cellTypes` so the import can use it instead of re-parsing text.
+ */
+export const sheetToCsvData = async (workbook: WorkBook, sheetName: string, headerRow = 1, sourceName = sheetName): Promise<CsvData> => {
+  const sheetRows = await readSheetRows(workbook, sheetName);
+  const [header, ...dataRows] = sheetRows.slice(headerRow - 1);
+  const headerCells = header?.cells ?? [];
+  // Sheets often have more cells in the data rows than in the header row
+  const columnCount = dataRows.reduce((count, { cells }) => Math.max(count, cells.length), headerCells.length);
+  const columns = buildColumns(Array.from({ length: columnCount }, (_, index) => convertCell(headerCells[index] ?? null).value));
+
+  const rows: Record<string, string>[] = [];
+  const cellTypes: Record<string, CsvCellType>[] = [];
+  const rowSources: CsvRowSource[] = [];
+
+  dataRows.forEach(({ cells, sheetRowNumber }) => {
+    const row: Record<string, string> = {};
+    const types: Record<string, CsvCellType> = {};
+
+    columns.forEach((column, index) => {
+      const { value, type } = convertCell(cells[index] ?? null);
+      row[column.id] = value;
+      types[column.id] = type;
+    });
+
+    rows.push(row);
+    cellTypes.push(types);
+    rowSources.push({ file: sourceName, line: sheetRowNumber });
+  });
+
+  return { headers: columns.map(column => column.header), rows, cellTypes, columns, rowSources };
+};
@@ -0,0 +1,121 @@
+import { TextCase, TransformStep } from '@/types/contentstack';
+
+export const TRANSFORM_STEP_TYPES: { type: TransformStep['type']; label: string }[] = [
+  { type: 'trim', label: 'Trim spaces' },
+  { type: 'case', label: 'Change case' },
+  { type: 'replace', label: 'Regex replace' },
+  { type: 'splitJoin', label: 'Split and join' },
+  { type: 'affix', label: 'Prefix / suffix' },
+  { type: 'slugify', label: 'Slugify' },
+  { type: 'truncate', label: 'Truncate' },
+  { type: 'stripHtml', label: 'Strip HTML' },
+  { type: 'defaultIfEmpty', label: 'Default if empty' },
+  { type: 'lookup', label: 'Lookup table' }
+];
+
+export const TEXT_CASES: { value: TextCase; label: string }[] = [
+  { value: 'upper', label: 'UPPER CASE' },
+  { value: 'lower', label: 'lower case' },
+  { value: 'title', label: 'Title Case' },
+  { value: 'sentence', label: 'Sentence case' }
+];
+
+export const createTransformStep = (type: TransformStep['type']): TransformStep => {
+  switch (type) {
+    case 'case': return { type, mode: 'lower' };
+    case 'replace': return { type, pattern: '', replacement: '', flags: 'g' };
+    case 'splitJoin': return { type, separator: ',', joiner: ', ' };
+    case 'affix': return { type, prefix: '', suffix: '' };
+    case 'truncate': return { type, length: 100 };
+    case 'defaultIfEmpty': return { type, value: '' };
+    case 'lookup': return { type, table: {}, keepUnmatched: true };
+    default: return { type } as TransformStep;
+  }
+};
+
+export const getTransformStepLabel = (step: TransformStep): string =>
+  TRANSFORM_STEP_TYPES.find(option => option.type === step.type)?.label ?? step.type;
+
+const changeCase = (value: string, mode: TextCase): string => {
+  switch (mode) {
+    case 'upper': return value.toUpperCase();
+    case 'lower': return value.toLowerCase();
+    case 'title': return value.toLowerCase().replace(/(^|[\s-])(\p{L})/gu, (_, start, letter) => start + letter.toUpperCase());
+    case 'sentence': return value.charAt(0).toUpperCase() + value.slice(1).toLowerCase();
+  }
+};
+
+const slugify = (value: string): string =>
+  value
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '') // Drop accents
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+
+const stripHtml = (value: string): string => {
+  const text = new DOMParser().parseFromString(value, 'text/html').body.textContent ?? '';
+  return text.replace(/\s+/g, ' ').trim();
+};
+
+// Returns why a step cannot run, e.g. an invalid regular expression, or null when it is fine
+export const getTransformStepError = (step: TransformStep): string | null => {
+  if (step.type === 'replace') {
+    if (!step.pattern) return 'Enter a pattern';
+    try {
+      new RegExp(step.pattern, step.flags);
+    } catch (error) {
+      return error instanceof Error ? error.message : 'Invalid regular expression';
+    }
+  }
+  if (step.type === 'truncate' && !(step.length > 0)) return 'Length must be greater than 0';
+  return null;
+};
+
+export const applyTransformStep = (value: string, step: TransformStep): string => {
+  switch (step.type) {
+    case 'trim':
+      return value.trim();
+    case 'case':
+      return changeCase(value, step.mode);
+    case 'replace':
+      return value.replace(new RegExp(step.pattern, step.flags), step.replacement);
+    case 'splitJoin':
+      return value.split(step.separator).map(part => part.trim()).filter(Boolean).join(step.joiner);
+    case 'affix':
+      return value ? `${step.prefix}${value}${step.suffix}` : value;
+    case 'slugify':
+      return slugify(value);
+    case 'truncate':
+      return value.length > step.length ? value.slice(0, step.length) : value;
+    case 'stripHtml':
+      return stripHtml(value);
+    case 'defaultIfEmpty':
+      return value.trim() ? value : step.value;
+    case 'lookup': {
+      const key = value.trim();
+      if (Object.prototype.hasOwnProperty.call(step.table, key)) return step.table[key];
+      return step.keepUnmatched ? value : '';
+    }
+  }
+};
+
+/**
+ * Runs a mapping's pipeline over one raw value. Steps that cannot run (see
+ * getTransformStepError) are skipped so one bad regex does not fail the row.
+ */
+export const applyTransforms = (value: string, steps: TransformStep[] = []): string =>
+  steps.reduce((current, step) => (getTransformStepError(step) ? current : applyTransformStep(current, step)), value ?? '');
+
+// Lookup tables are edited as "from=to" lines
+export const parseLookupTable = (text: string): Record<string, string> =>
+  Object.fromEntries(text
+    .split('\n')
+    .filter(line => line.includes('='))
+    .map(line => {
+      const separator = line.indexOf('=');
+      return [line.slice(0, separator).trim(), line.slice(separator + 1).trim()];
+    }));
+
+export const formatLookupTable = (table: Record<string, string>): string =>
+  Object.entries(table).map(([from, to]) => `${from}=${to}`).join('\n');
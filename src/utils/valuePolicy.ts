@@ -0,0 +1,46 @@
+import { EmptyValueMode, FieldMapping, ValuePolicy } from '@/types/contentstack';
+
+// Matches the importer's behaviour before policies existed: trimmed values, empty cells left out
+export const DEFAULT_VALUE_POLICY: ValuePolicy = {
+  trim: true,
+  emptyAs: 'omit',
+  nullTokens: []
+};
+
+export const EMPTY_VALUE_MODES: { value: EmptyValueMode; label: string }[] = [
+  { value: 'omit', label: 'Not provided' },
+  { value: 'null', label: 'Null' },
+  { value: 'empty', label: 'Empty string' },
+  { value: 'clear', label: 'Clear field on update' }
+];
+
+export const getValuePolicy = (mapping: FieldMapping): ValuePolicy => ({
+  ...DEFAULT_VALUE_POLICY,
+  ...mapping.valuePolicy
+});
+
+/**
+ * Applies trimming and null tokens to a raw cell. Returns null when the cell
+ * counts as empty, otherwise the value to import. A whitespace-only cell is
+ * empty even when trimming is off.
+ */
+export const applyValuePolicy = (raw: string | undefined, policy: ValuePolicy): string | null => {
+  const value = policy.trim ? (raw ?? '').trim() : (raw ?? '');
+  const token = value.trim().toLowerCase();
+  if (token === '') return null;
+  if (policy.nullTokens.some(nullToken => nullToken.trim().toLowerCase() === token)) return null;
+
+  return value;
+};
+
+export const parseNullTokens = (text: string): string[] =>
+  text.split(',').map(token => token.trim()).filter(Boolean);
+
+export const describeValuePolicy = (policy: ValuePolicy): string => {
+  const parts = [
+    policy.trim ? 'Trim' : 'Keep spaces',
+    `Empty: ${EMPTY_VALUE_MODES.find(mode => mode.value === policy.emptyAs)?.label}`
+  ];
+  if (policy.nullTokens.length > 0) parts.push(`Null: ${policy.nullTokens.join(', ')}`);
+  return parts.join(' · ');
+};
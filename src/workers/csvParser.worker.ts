@@ -0,0 +1,92 @@
+import {
+  CsvEncodingInfo,
+  CsvParseRequest,
+  CsvParseResponse,
+  CsvParseResult,
+  DetectedCsvDialect
+} from '@/types/csvParser';
+import { CsvStreamParser, createCsvDataCollector, sniffDialect } from '@/utils/csvParser';
+import { countUndecodableCharacters, createLiteralReplacementCounter, detectEncoding } from '@/utils/encoding';
+
+// Files are read in slices so a large export never has to sit in memory as one string
+const CHUNK_SIZE = 1024 * 1024;
+
+// Length of the decoded text handed back for the format preview
+const SAMPLE_LENGTH = 64 * 1024;
+
+const ctx = self as unknown as Worker;
+
+const post = (message: CsvParseResponse) => ctx.postMessage(message);
+
+const parseFile = async ({ file, dialect: requestedDialect, encoding: requestedEncoding, fallbackEncodings }: CsvParseRequest): Promise<CsvParseResult> => {
+  let decoder: TextDecoder | null = null;
+  let encoding: CsvEncodingInfo | null = null;
+  let dialect: DetectedCsvDialect | null = null;
+  let collector: ReturnType<typeof createCsvDataCollector> | null = null;
+  let parser: CsvStreamParser | null = null;
+  let sampleText = '';
+  let literalReplacements: ReturnType<typeof createLiteralReplacementCounter> | null = null;
+
+  const pushText = (text: string) => {
+    encoding.undecodableCount += countUndecodableCharacters(text);
+
+    if (!parser) {
+      // The first chunk doubles as the sniffing sample; explicit settings win over the guess
+      sampleText = text.slice(0, SAMPLE_LENGTH);
+      const detected = sniffDialect(sampleText);
+      dialect = requestedDialect ? { ...detected, ...requestedDialect } : detected;
+      collector = createCsvDataCollector(dialect.hasHeaderRow, dialect.delimiter, file.name);
+      parser = new CsvStreamParser(collector.onRecord, dialect);
+    }
+    parser.push(text);
+  };
+
+  for (let offset = 0; offset < file.size; offset += CHUNK_SIZE) {
+    const bytes = new Uint8Array(await file.slice(offset, offset + CHUNK_SIZE).arrayBuffer());
+
+    if (!decoder) {
+      const detection = detectEncoding(bytes, fallbackEncodings);
+      const chosenEncoding = requestedEncoding || detection.encoding;
+      encoding = {
+        encoding: chosenEncoding,
+        source: requestedEncoding ? 'manual' : detection.source,
+        // The decoder removes a BOM only when it belongs to the chosen encoding
+        hadBom: detection.source === 'bom' && detection.encoding === chosenEncoding,
+        undecodableCount: 0
+      };
+      decoder = new TextDecoder(chosenEncoding);
+      literalReplacements = createLiteralReplacementCounter(chosenEncoding);
+    }
+
+    literalReplacements.push(bytes);
+    pushText(decoder.decode(bytes, { stream: true }));
+
+    post({
+      type: 'progress',
+      bytesRead: Math.min(offset + CHUNK_SIZE, file.size),
+      totalBytes: file.size,
+      rowsParsed: collector.getRowCount()
+    });
+  }
+
+  if (!decoder) {
+    throw new Error('The file is empty');
+  }
+
+  pushText(decoder.decode());
+  parser.finish();
+  encoding.undecodableCount = Math.max(0, encoding.undecodableCount - literalReplacements.getCount());
+
+  return { data: collector.getData(), dialect, encoding, diagnostics: collector.getDiagnostics(), sampleText };
+};
+
+ctx.onmessage = async (event: MessageEvent<CsvParseRequest>) => {
+  if (event.data.type !== 'parse') return;
+
+  try {
+    const result = await parseFile(event.data);
+    post({ type: 'complete', ...result });
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};